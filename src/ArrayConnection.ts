@@ -0,0 +1,168 @@
+import { Connection, ConnectionArguments, Edge } from '@girin/connection';
+
+import { PageSizeOptions, applyPageSizeOptions, validateConnectionArguments } from './arguments';
+import { CursorCodec, CursorOptions, TypedJSONCursorCodec, createCursorCodec, decodeCursor } from './CursorCodec';
+import { EntityConnectionSortOption } from './EntityConnection';
+import { compareKeys, createEntityCursorFingerprint, getPathValue, validateSortOption } from './keyset';
+import { TotalCount } from './totalCount';
+
+
+/**
+ * Options of `ArrayConnection`. The cursor codec defaults to `TypedJSONCursorCodec`.
+ */
+export interface ArrayConnectionOptions extends CursorOptions, PageSizeOptions {
+  /**
+   * Property paths appended to the sort options in the order of the last sort option, unless they include them,
+   * like the primary columns `EntityConnection` appends. Sort options without a tie-breaker must be unique.
+   */
+  tieBreaker?: string[];
+}
+
+/**
+ * Connection of the nodes of an array, sorted and paginated in memory.
+ * It issues the same cursors and page info as an `EntityConnection` with the same resolved sort options,
+ * so that a resolver can switch between them without breaking client cursors.
+ * Give `nulls` of nullable columns and the tie-breaker the same way `EntityConnection` resolves them.
+ */
+export class ArrayConnection<TNode extends Object> extends Connection<TNode, TNode> {
+
+  protected limit?: number;
+  protected afterKey?: any[];
+  protected beforeKey?: any[];
+  protected cursorCodec: CursorCodec;
+
+  constructor(
+    args: ConnectionArguments,
+    public sortOptions: EntityConnectionSortOption[],
+    public nodes: TNode[],
+    public options: ArrayConnectionOptions = {},
+  ) {
+    super(applyPageSizeOptions(validateConnectionArguments(args), options));
+    sortOptions.forEach(validateSortOption);
+
+    const order = sortOptions.length > 0 ? sortOptions[sortOptions.length - 1].order : 'ASC';
+    this.sortOptions = [
+      ...sortOptions,
+      ...(options.tieBreaker || [])
+        .filter(sort => !sortOptions.some(sortOption => sortOption.sort === sort))
+        .map(sort => ({ sort, order })),
+    ];
+    this.cursorCodec = createCursorCodec(
+      options,
+      createEntityCursorFingerprint(this.sortOptions, options.cursorScope),
+      () => new TypedJSONCursorCodec(),
+    );
+
+    this.limit = this.args.first || this.args.last || undefined;
+
+    if (args.after) {
+      this.afterKey = this.explodeCursor(args.after, 'after');
+    }
+    if (args.before) {
+      this.beforeKey = this.explodeCursor(args.before, 'before');
+    }
+  }
+
+  public edges: Edge<ArrayConnection<TNode>>[];
+
+  resolveCursor(item: TNode): string {
+    return this.cursorCodec.encode(this.getKey(item));
+  }
+
+  /**
+   * Read the sort key of a node, following the dots of the property paths into embedded objects.
+   */
+  protected getKey(item: TNode): any[] {
+    return this.sortOptions.map(({ sort, getValue }) => (getValue ? getValue(item) : getPathValue(item, sort)));
+  }
+
+  resolveNode(item: TNode): TNode {
+    return item;
+  }
+
+  resolveHasNextPage() {
+    const { first, before } = this.args;
+
+    if (typeof first === 'number') {
+      this.getEdgeSources();
+      return this.hasExtraNode;
+    }
+    if (typeof before === 'string') {
+      return this.getSortedKeys().some(key => this.compare(key, this.beforeKey!) > 0);
+    }
+    return false;
+  }
+
+  resolveHasPreviousPage() {
+    const { last, after } = this.args;
+
+    if (typeof last === 'number') {
+      this.getEdgeSources();
+      return this.hasExtraNode;
+    }
+    if (typeof after === 'string') {
+      return this.getSortedKeys().some(key => this.compare(key, this.afterKey!) < 0);
+    }
+    return false;
+  }
+
+  /**
+   * The number of nodes of the connection, ignoring the pagination arguments.
+   */
+  get totalCount(): Promise<TotalCount> {
+    return Promise.resolve({ count: this.nodes.length, exact: true });
+  }
+
+  getEdgeSources(): TNode[] {
+    if (!this.edgeSources) {
+      this.edgeSources = this.paginate();
+    }
+    return this.edgeSources;
+  }
+
+  /**
+   * Sort the nodes and slice the page within the cursors.
+   */
+  protected paginate(): TNode[] {
+    const { afterKey, beforeKey } = this;
+    const sorted = this.getSorted().filter(({ key }) => (
+      (!afterKey || this.compare(key, afterKey) > 0) && (!beforeKey || this.compare(key, beforeKey) < 0)
+    ));
+    let nodes = sorted.map(({ node }) => node);
+
+    if (this.limit && nodes.length > this.limit) {
+      this.hasExtraNode = true;
+      nodes = typeof this.args.last === 'number' ? nodes.slice(-this.limit) : nodes.slice(0, this.limit);
+    }
+    return nodes;
+  }
+
+  protected edgeSources: TNode[] | null = null;
+  protected hasExtraNode = false;
+
+  /**
+   * The nodes with their keys in the sort order, computed once per connection.
+   */
+  protected getSorted(): { node: TNode, key: any[] }[] {
+    if (!this.sorted) {
+      this.sorted = this.nodes
+        .map(node => ({ node, key: this.getKey(node) }))
+        .sort((a, b) => this.compare(a.key, b.key));
+    }
+    return this.sorted;
+  }
+
+  protected sorted: { node: TNode, key: any[] }[] | null = null;
+
+  protected getSortedKeys(): any[][] {
+    return this.getSorted().map(({ key }) => key);
+  }
+
+  protected compare(a: any[], b: any[]): number {
+    return compareKeys(this.sortOptions, a, b);
+  }
+
+  protected explodeCursor(cursor: string, argument: 'after' | 'before'): any[] {
+    return decodeCursor(this.cursorCodec, cursor, argument, this.sortOptions.length);
+  }
+}
@@ -0,0 +1,219 @@
+import { ConnectionArguments } from '@girin/connection';
+import { SelectQueryBuilder } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+import { EntityConnection, EntityConnectionArguments, EntityConnectionOptions, EntityConnectionSortOption } from './EntityConnection';
+import { InvalidArgumentsError } from './errors';
+
+
+/**
+ * Options of `BatchedEntityConnection`.
+ */
+export interface BatchedEntityConnectionOptions extends EntityConnectionOptions {
+  /**
+   * Property path of the column of the main alias holding the parent key, like `authorId`,
+   * or of a relation with a single join column, like `author`.
+   */
+  parentKey: string;
+}
+
+interface EntityConnectionBatch<TEntity> {
+  parentKeys: any[];
+  promise: Promise<Map<string, { entities: TEntity[], rawRows: any[] }>> | null;
+  /**
+   * Parent keys with rows beyond the cursor of each argument, for the page info of the batch.
+   */
+  probes: { after?: Promise<Set<string>>, before?: Promise<Set<string>> };
+}
+
+/**
+ * Create a connection for each of the parent keys, in the same order, paginating the rows of the query builder
+ * whose parent key column equals the parent key.
+ * The pages of all the connections are loaded together with a single query partitioned by the parent key,
+ * which requires window functions (PostgreSQL, MySQL 8, MariaDB 10.2 or SQLite 3.25).
+ * Whether there are rows before `after` or after `before` is likewise probed with a single query grouped by the parent key.
+ * The `around`, `offset` and `page` arguments are not supported and throw `InvalidArgumentsError`.
+ */
+export function createBatchedEntityConnections<TEntity extends Object>(
+  parentKeys: any[],
+  args: ConnectionArguments,
+  sortOptions: EntityConnectionSortOption[],
+  queryBuilder: SelectQueryBuilder<TEntity>,
+  options: BatchedEntityConnectionOptions,
+): BatchedEntityConnection<TEntity>[] {
+  for (const argument of ['around', 'offset', 'page'] as ('around' | 'offset' | 'page')[]) {
+    const value = (args as EntityConnectionArguments)[argument];
+    if (value !== null && value !== undefined) {
+      throw new InvalidArgumentsError(`Argument "${argument}" is not supported by batched connections`, { argument });
+    }
+  }
+  const batch: EntityConnectionBatch<TEntity> = { parentKeys, promise: null, probes: {} };
+  return parentKeys.map(parentKey => (
+    new BatchedEntityConnection(args, sortOptions, queryBuilder, options, parentKey, batch)
+  ));
+}
+
+/**
+ * `EntityConnection` of the rows of a parent, loading its page together with the other connections of its batch.
+ * Create them with `createBatchedEntityConnections`.
+ */
+export class BatchedEntityConnection<TEntity extends Object> extends EntityConnection<TEntity> {
+
+  protected parentColumn: ColumnMetadata;
+  protected parentExpression: string;
+
+  constructor(
+    args: ConnectionArguments,
+    sortOptions: EntityConnectionSortOption[],
+    protected batchQueryBuilder: SelectQueryBuilder<TEntity>,
+    public options: BatchedEntityConnectionOptions,
+    public parentKey: any,
+    protected batch: EntityConnectionBatch<TEntity>,
+  ) {
+    super(args, sortOptions, filterByParentKey(batchQueryBuilder, options.parentKey, parentKey), options);
+    this.parentColumn = resolveParentColumn(batchQueryBuilder, options.parentKey);
+    this.parentExpression = this.getColumnExpression(batchQueryBuilder.expressionMap.mainAlias!, this.parentColumn);
+  }
+
+  async resolveHasNextPage() {
+    if (typeof this.args.first !== 'number' && !this.aroundKey && typeof this.args.before === 'string') {
+      return this.probeBatch('before');
+    }
+    return super.resolveHasNextPage();
+  }
+
+  async resolveHasPreviousPage() {
+    if (typeof this.args.last !== 'number' && !this.aroundKey && typeof this.args.after === 'string') {
+      return this.probeBatch('after');
+    }
+    return super.resolveHasPreviousPage();
+  }
+
+  async query(): Promise<TEntity[]> {
+    if (!this.batch.promise) {
+      this.batch.promise = this.queryBatch();
+    }
+    const pages = await this.batch.promise;
+    const { entities, rawRows } = pages.get(String(this.parentKey)) || { entities: [], rawRows: [] };
+    const selected = this.sortColumns.some(({ selection }) => selection !== undefined);
+    // copy the page, which is shared by the connections of a parent key given more than once
+    return this.receiveEdgeSources(entities.slice(), selected ? rawRows.slice() : undefined);
+  }
+
+  /**
+   * Load the pages of every parent of the batch, numbering the rows of each parent in the sort order
+   * and joining the rows numbered within the limit.
+   */
+  protected async queryBatch(): Promise<Map<string, { entities: TEntity[], rawRows: any[] }>> {
+    const { batchQueryBuilder, parentExpression, parentColumn } = this;
+    const { connection, expressionMap } = batchQueryBuilder;
+    const mainAlias = expressionMap.mainAlias!;
+    const pages = new Map<string, { entities: TEntity[], rawRows: any[] }>();
+    if (this.batch.parentKeys.length === 0) {
+      return pages;
+    }
+    if (this.afterKey || this.beforeKey) {
+      await this.resolveKeysetPredicate();
+    }
+
+    const primaryExpressions = mainAlias.metadata.primaryColumns
+      .map(column => this.getColumnExpression(mainAlias, column));
+    const orderBy = this.getOrderByTerms().map(([expression, order]) => `${expression} ${order}`).join(', ');
+
+    const windowQueryBuilder = batchQueryBuilder.clone()
+      .andWhere(`${parentExpression} IN (:...batch__parentKeys)`, { batch__parentKeys: this.batch.parentKeys });
+    if (this.afterSelector) { windowQueryBuilder.andWhere(this.afterSelector); }
+    if (this.beforeSelector) { windowQueryBuilder.andWhere(this.beforeSelector); }
+    windowQueryBuilder.select(primaryExpressions[0], 'batch_primary_0');
+    for (let i = 1; i < primaryExpressions.length; i++) {
+      windowQueryBuilder.addSelect(primaryExpressions[i], `batch_primary_${i}`);
+    }
+    windowQueryBuilder
+      .addSelect(`ROW_NUMBER() OVER (PARTITION BY ${parentExpression} ORDER BY ${orderBy})`, 'batch_row')
+      .orderBy();
+
+    const batchAlias = batchQueryBuilder.escape('batch');
+    const rowExpression = `${batchAlias}.${batchQueryBuilder.escape('batch_row')}`;
+    const queryBuilder = batchQueryBuilder.clone()
+      .innerJoin(
+        `(${windowQueryBuilder.getQuery()})`,
+        'batch',
+        primaryExpressions
+          .map((expression, i) => `${batchAlias}.${batchQueryBuilder.escape(`batch_primary_${i}`)} = ${expression}`)
+          .join(' AND '),
+      )
+      .setParameters(windowQueryBuilder.getParameters())
+      .addSelect(parentExpression, 'batch_parent')
+      .orderBy(parentExpression)
+      .addOrderBy(rowExpression);
+    // one more row than the limit for each parent
+    if (this.limit) {
+      queryBuilder.andWhere(`${rowExpression} <= :batch__limit`, { batch__limit: this.limit + 1 });
+    }
+    this.addKeySelections(queryBuilder);
+
+    const { entities, raw } = await queryBuilder.getRawAndEntities();
+    const rawRows = this.groupRawRows(raw);
+    entities.forEach((entity, i) => {
+      const parentKey = String(connection.driver.prepareHydratedValue(rawRows[i].batch_parent, parentColumn));
+      let page = pages.get(parentKey);
+      if (!page) {
+        page = { entities: [], rawRows: [] };
+        pages.set(parentKey, page);
+      }
+      page.entities.push(entity);
+      page.rawRows.push(rawRows[i]);
+    });
+    return pages;
+  }
+
+  protected async probeBatch(argument: 'after' | 'before'): Promise<boolean> {
+    if (!this.batch.probes[argument]) {
+      this.batch.probes[argument] = this.queryBatchProbe(argument);
+    }
+    const parentKeys = await this.batch.probes[argument]!;
+    return parentKeys.has(String(this.parentKey));
+  }
+
+  /**
+   * Find the parents of the batch with rows before the `after` cursor or after the `before` cursor.
+   */
+  protected async queryBatchProbe(argument: 'after' | 'before'): Promise<Set<string>> {
+    const { batchQueryBuilder, parentExpression, parentColumn } = this;
+    await this.resolveKeysetPredicate();
+    const selector = argument === 'after'
+      ? this.keyToSelector(this.afterKey!, 'before')
+      : this.keyToSelector(this.beforeKey!, 'after');
+
+    const rows = await batchQueryBuilder.clone()
+      .andWhere(`${parentExpression} IN (:...batch__parentKeys)`, { batch__parentKeys: this.batch.parentKeys })
+      .andWhere(selector)
+      .select(parentExpression, 'batch_parent')
+      .groupBy(parentExpression)
+      .orderBy()
+      .getRawMany();
+    const { driver } = batchQueryBuilder.connection;
+    return new Set(rows.map(row => String(driver.prepareHydratedValue(row.batch_parent, parentColumn))));
+  }
+}
+
+function resolveParentColumn(queryBuilder: SelectQueryBuilder<any>, parentKey: string): ColumnMetadata {
+  const { mainAlias } = queryBuilder.expressionMap;
+  if (!mainAlias || !mainAlias.hasMetadata) {
+    throw new Error('BatchedEntityConnection requires a query builder selecting an entity');
+  }
+  const columns = mainAlias.metadata.findColumnsWithPropertyPath(parentKey);
+  if (columns.length !== 1) {
+    throw new Error(`Option "parentKey" must be the property path of a column or a relation with a single join column`);
+  }
+  return columns[0];
+}
+
+function filterByParentKey<TEntity>(queryBuilder: SelectQueryBuilder<TEntity>, parentKeyPath: string, parentKey: any) {
+  const column = resolveParentColumn(queryBuilder, parentKeyPath);
+  const alias = queryBuilder.expressionMap.mainAlias!.name;
+  return queryBuilder.clone().andWhere(
+    `${queryBuilder.escape(alias)}.${queryBuilder.escape(column.databaseName)} = :batch__parentKey`,
+    { batch__parentKey: parentKey },
+  );
+}
@@ -0,0 +1,142 @@
+import { ConnectionArguments } from '@girin/connection';
+import { DocumentToEntityTransformer } from 'typeorm/query-builder/transformer/DocumentToEntityTransformer';
+
+import { MongoEntityConnection, MongoEntityConnectionOptions, Selector } from './MongoEntityConnection';
+
+
+/**
+ * Options of `BatchedMongoEntityConnection`.
+ */
+export interface BatchedMongoEntityConnectionOptions<Entity> extends MongoEntityConnectionOptions<Entity> {
+  /**
+   * Name of the document field holding the parent key.
+   */
+  parentField: string;
+}
+
+interface MongoEntityConnectionBatch<Entity> {
+  parentKeys: any[];
+  promise: Promise<Map<string, Entity[]>> | null;
+  /**
+   * Parent keys with documents beyond the cursor of each argument, for the page info of the batch.
+   */
+  probes: { after?: Promise<Set<string>>, before?: Promise<Set<string>> };
+}
+
+/**
+ * Create a connection for each of the parent keys, in the same order, paginating the documents
+ * whose parent field equals the parent key.
+ * The pages of all the connections are loaded together with a single aggregation with a `$facet` sub-pipeline
+ * for each parent key, which sorts and limits the documents of the parent, so that memory is bounded by the page size.
+ * The result of the aggregation is a single document, limited to 16 MB like any other.
+ * Whether there are documents before `after` or after `before` is likewise probed with a single aggregation
+ * grouping the documents by the parent key.
+ */
+export function createBatchedMongoEntityConnections<Entity extends Object>(
+  parentKeys: any[],
+  args: ConnectionArguments,
+  options: BatchedMongoEntityConnectionOptions<Entity>,
+): BatchedMongoEntityConnection<Entity>[] {
+  const batch: MongoEntityConnectionBatch<Entity> = { parentKeys, promise: null, probes: {} };
+  return parentKeys.map(parentKey => new BatchedMongoEntityConnection(args, options, parentKey, batch));
+}
+
+/**
+ * `MongoEntityConnection` of the documents of a parent, loading its page together with the other connections of its batch.
+ * Create them with `createBatchedMongoEntityConnections`.
+ */
+export class BatchedMongoEntityConnection<Entity extends Object> extends MongoEntityConnection<Entity> {
+
+  constructor(
+    args: ConnectionArguments,
+    protected batchOptions: BatchedMongoEntityConnectionOptions<Entity>,
+    public parentKey: any,
+    protected batch: MongoEntityConnectionBatch<Entity>,
+  ) {
+    super(args, {
+      ...batchOptions,
+      selector: batchOptions.selector
+        ? { $and: [batchOptions.selector, { [batchOptions.parentField]: parentKey }] }
+        : { [batchOptions.parentField]: parentKey },
+    });
+  }
+
+  async resolveHasNextPage() {
+    if (typeof this.args.first !== 'number' && typeof this.args.before === 'string') {
+      return this.probeBatch('before');
+    }
+    return super.resolveHasNextPage();
+  }
+
+  async resolveHasPreviousPage() {
+    if (typeof this.args.last !== 'number' && typeof this.args.after === 'string') {
+      return this.probeBatch('after');
+    }
+    return super.resolveHasPreviousPage();
+  }
+
+  async query(): Promise<Entity[]> {
+    if (!this.batch.promise) {
+      this.batch.promise = this.queryBatch();
+    }
+    const pages = await this.batch.promise;
+    // copy the page, which is shared by the connections of a parent key given more than once
+    return this.receiveEdgeSources((pages.get(String(this.parentKey)) || []).slice());
+  }
+
+  /**
+   * Load the pages of every parent of the batch, sorting and limiting the documents of each parent in a facet.
+   */
+  protected async queryBatch(): Promise<Map<string, Entity[]>> {
+    const { repository, parentField, selector } = this.batchOptions;
+    const pages = new Map<string, Entity[]>();
+    if (this.batch.parentKeys.length === 0) {
+      return pages;
+    }
+
+    const selectors: Selector[] = [{ [parentField]: { $in: this.batch.parentKeys } }];
+    if (this.afterSelector) { selectors.push(this.afterSelector); }
+    if (this.beforeSelector) { selectors.push(this.beforeSelector); }
+    if (selector) { selectors.push(selector); }
+
+    const facets: { [name: string]: object[] } = {};
+    this.batch.parentKeys.forEach((parentKey, i) => {
+      facets[`parent${i}`] = [{ $match: { [parentField]: parentKey } }, ...this.getSortStages()];
+      if (this.limit) {
+        facets[`parent${i}`].push({ $limit: this.limit + 1 });
+      }
+    });
+    const pipeline = [{ $match: { $and: selectors } }, { $facet: facets }];
+
+    const [result] = await repository.aggregate(pipeline, { collation: this.collation, allowDiskUse: true } as any).toArray();
+    const transformer = new DocumentToEntityTransformer();
+    this.batch.parentKeys.forEach((parentKey, i) => {
+      pages.set(String(parentKey), transformer.transformAll(result[`parent${i}`], repository.metadata));
+    });
+    return pages;
+  }
+
+  protected async probeBatch(argument: 'after' | 'before'): Promise<boolean> {
+    if (!this.batch.probes[argument]) {
+      this.batch.probes[argument] = this.queryBatchProbe(argument);
+    }
+    const parentKeys = await this.batch.probes[argument]!;
+    return parentKeys.has(String(this.parentKey));
+  }
+
+  /**
+   * Find the parents of the batch with documents before the `after` cursor or after the `before` cursor.
+   */
+  protected async queryBatchProbe(argument: 'after' | 'before'): Promise<Set<string>> {
+    const { repository, parentField, selector } = this.batchOptions;
+    const selectors: Selector[] = [
+      { [parentField]: { $in: this.batch.parentKeys } },
+      argument === 'after' ? this.keyToSelector(this.afterKey!, 'before') : this.keyToSelector(this.beforeKey!, 'after'),
+    ];
+    if (selector) { selectors.push(selector); }
+
+    const pipeline = [{ $match: { $and: selectors } }, { $group: { _id: `$${parentField}` } }];
+    const groups = await repository.aggregate(pipeline, { collation: this.collation } as any).toArray();
+    return new Set(groups.map(({ _id }) => String(_id)));
+  }
+}
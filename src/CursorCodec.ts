@@ -0,0 +1,164 @@
+import { ConnectionError, InvalidCursorError } from './errors';
+import { CursorEncryptionOptions, EncryptedCursorCodec } from './EncryptedCursorCodec';
+import { CursorFingerprint, FingerprintedCursorCodec } from './FingerprintedCursorCodec';
+import { CursorSigningOptions, SignedCursorCodec } from './SignedCursorCodec';
+import { TypedJSON } from './TypedJSON';
+
+
+/**
+ * Serializes the sort key of a node into an opaque cursor string and back.
+ */
+export interface CursorCodec {
+  encode(key: any[]): string;
+  decode(cursor: string): any[];
+}
+
+/**
+ * Cursor options shared by the connections.
+ */
+export interface CursorOptions {
+  /**
+   * Codec for serializing cursors. Defaults to the codec of the connection.
+   */
+  cursorCodec?: CursorCodec;
+  /**
+   * Sign cursors with a server secret so that modified cursors are rejected.
+   */
+  cursorSigning?: CursorSigningOptions;
+  /**
+   * Encrypt cursors with a server key so that clients cannot read the sort values.
+   */
+  cursorEncryption?: CursorEncryptionOptions;
+  /**
+   * Scope included in the cursor fingerprint, such as the entity name and a hash of the filters.
+   * Cursors issued in another scope are rejected.
+   */
+  cursorScope?: string;
+}
+
+/**
+ * Create the codec used by a connection from its cursor options.
+ */
+export function createCursorCodec(
+  options: CursorOptions,
+  fingerprint: CursorFingerprint,
+  defaultCodec: () => CursorCodec,
+): CursorCodec {
+  let codec: CursorCodec = new FingerprintedCursorCodec(options.cursorCodec || defaultCodec(), fingerprint);
+  if (options.cursorSigning) {
+    codec = new SignedCursorCodec(codec, options.cursorSigning);
+  }
+  if (options.cursorEncryption) {
+    codec = new EncryptedCursorCodec(codec, options.cursorEncryption);
+  }
+  return codec;
+}
+
+/**
+ * Decode a cursor argument into a key of the given length.
+ * Throws `InvalidCursorError` or one of its subclasses with the argument name in its extensions.
+ */
+export function decodeCursor(codec: CursorCodec, cursor: string, argument: string, keyLength: number): any[] {
+  let key: any[];
+  try {
+    key = codec.decode(cursor);
+  } catch (e) {
+    if (e instanceof ConnectionError) {
+      e.extensions.argument = argument;
+      throw e;
+    }
+    throw new InvalidCursorError(`Argument "${argument}" is not a valid cursor`, { argument });
+  }
+  if (!Array.isArray(key) || key.length !== keyLength) {
+    throw new InvalidCursorError(`Argument "${argument}" is not a valid cursor`, { argument });
+  }
+  return key;
+}
+
+export interface BinaryCursorCodecOptions {
+  /**
+   * Text encoding of the serialized key.
+   * `base64url` produces cursors which can be put in URLs without escaping.
+   * Defaults to `base64`.
+   */
+  encoding?: 'base64' | 'base64url';
+}
+
+/**
+ * Base class for codecs serializing the key to bytes.
+ * Override `serialize` and `deserialize` to change the format, for example to add compression.
+ */
+export abstract class BinaryCursorCodec implements CursorCodec {
+
+  constructor(protected codecOptions: BinaryCursorCodecOptions = {}) {}
+
+  abstract serialize(key: any[]): Buffer;
+  abstract deserialize(buffer: Buffer): any[];
+
+  encode(key: any[]): string {
+    const base64 = this.serialize(key).toString('base64');
+    if (this.codecOptions.encoding === 'base64url') {
+      return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+    return base64;
+  }
+
+  decode(cursor: string): any[] {
+    let base64 = cursor;
+    if (this.codecOptions.encoding === 'base64url') {
+      base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    }
+    return this.deserialize(Buffer.from(base64, 'base64'));
+  }
+}
+
+/**
+ * Plain `JSON` codec. Values which have no JSON representation, like `Date`, are decoded as strings.
+ */
+export class JSONCursorCodec extends BinaryCursorCodec {
+
+  serialize(key: any[]): Buffer {
+    return Buffer.from(JSON.stringify(key));
+  }
+
+  deserialize(buffer: Buffer): any[] {
+    return JSON.parse(buffer.toString());
+  }
+}
+
+/**
+ * `TypedJSON` codec preserving `Date`, `bigint` and `Buffer` values. Default codec of `EntityConnection`.
+ */
+export class TypedJSONCursorCodec extends BinaryCursorCodec {
+
+  serialize(key: any[]): Buffer {
+    return Buffer.from(TypedJSON.stringify(key));
+  }
+
+  deserialize(buffer: Buffer): any[] {
+    return TypedJSON.parse(buffer.toString());
+  }
+}
+
+/**
+ * BSON codec preserving every BSON type like `ObjectID`. Default codec of `MongoEntityConnection`.
+ */
+export class BSONCursorCodec extends BinaryCursorCodec {
+
+  protected bson: any;
+
+  constructor(codecOptions?: BinaryCursorCodecOptions) {
+    super(codecOptions);
+    const BSON = require('bson');
+    this.bson = new BSON();
+  }
+
+  serialize(key: any[]): Buffer {
+    return this.bson.serialize(key);
+  }
+
+  deserialize(buffer: Buffer): any[] {
+    const document = this.bson.deserialize(buffer);
+    return Object.keys(document).map(index => document[index]);
+  }
+}
@@ -0,0 +1,79 @@
+import { createCipheriv, createDecipheriv, createHmac } from 'crypto';
+
+import { CursorCodec } from './CursorCodec';
+import { CursorVerificationError } from './errors';
+import { CursorSecret } from './SignedCursorCodec';
+
+
+export interface CursorEncryptionOptions {
+  /**
+   * Key for encrypting new cursors. Cursors encrypted with it are also accepted.
+   */
+  key: CursorSecret;
+  /**
+   * Additional keys accepted when decrypting cursors, such as the keys being rotated out.
+   */
+  decryptionKeys?: CursorSecret[];
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypts the cursors of the wrapped codec with AES-256-GCM so that clients cannot read the sort values.
+ *
+ * The IV is derived from the HMAC of the plaintext, so the same key always produces the same cursor
+ * for the same node and cursors can be compared by clients.
+ */
+export class EncryptedCursorCodec implements CursorCodec {
+
+  constructor(protected codec: CursorCodec, protected encryptionOptions: CursorEncryptionOptions) {}
+
+  encode(key: any[]): string {
+    const plaintext = Buffer.from(this.codec.encode(key));
+    const { encryptionKey, ivKey } = deriveKeys(this.encryptionOptions.key);
+
+    const iv = createHmac('sha256', ivKey).update(plaintext).digest().slice(0, IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  decode(cursor: string): any[] {
+    const buffer = Buffer.from(cursor.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+    if (buffer.length < IV_LENGTH + TAG_LENGTH) {
+      throw new CursorVerificationError('Cursor could not be decrypted');
+    }
+    const iv = buffer.slice(0, IV_LENGTH);
+    const tag = buffer.slice(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const ciphertext = buffer.slice(IV_LENGTH + TAG_LENGTH);
+
+    const { key, decryptionKeys = [] } = this.encryptionOptions;
+    for (const candidate of [key, ...decryptionKeys]) {
+      const plaintext = decrypt(deriveKeys(candidate).encryptionKey, iv, tag, ciphertext);
+      if (plaintext) {
+        return this.codec.decode(plaintext.toString());
+      }
+    }
+    throw new CursorVerificationError('Cursor could not be decrypted');
+  }
+}
+
+function deriveKeys(key: CursorSecret) {
+  return {
+    encryptionKey: createHmac('sha256', key).update('cursor-encryption').digest(),
+    ivKey: createHmac('sha256', key).update('cursor-iv').digest(),
+  };
+}
+
+function decrypt(encryptionKey: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer | null {
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey, iv);
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch (e) {
+    return null;
+  }
+}
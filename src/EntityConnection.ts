@@ -1,10 +1,136 @@
+import { ReadStream } from 'fs';
 import { SelectQueryBuilder, Brackets } from 'typeorm';
-import { Connection, ConnectionArguments, Edge } from '@girin/connection';
+import { DriverUtils } from 'typeorm/driver/DriverUtils';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { Alias } from 'typeorm/query-builder/Alias';
+import { RawSqlResultsToEntityTransformer } from 'typeorm/query-builder/transformer/RawSqlResultsToEntityTransformer';
+import { Connection, ConnectionArguments, Edge, PageInfo } from '@girin/connection';
+
+import {
+  ConnectionIterateOptions,
+  PageSizeOptions,
+  applyPageSizeOptions,
+  validateBatchSize,
+  validateConnectionArguments,
+} from './arguments';
+import { CursorCodec, CursorOptions, TypedJSONCursorCodec, createCursorCodec, decodeCursor } from './CursorCodec';
+import { InvalidArgumentsError } from './errors';
+import { trimExtraNode } from './extraNode';
+import { createEntityCursorFingerprint, validateSortOption } from './keyset';
+import { supportsRowValueComparison } from './rowValueComparison';
+import { TotalCount, TotalCountOptions, TotalCounter, countInMode } from './totalCount';
 
 
 export interface EntityConnectionSortOption {
+  /**
+   * Property path of the sorted column of the main alias, like `title` or `stats.views` for an embedded column.
+   * It may be prefixed with the main alias name, or with a joined alias or relation name like `author.name`.
+   * Names the sort key when `expression` is given.
+   */
   sort: string;
   order: 'ASC' | 'DESC';
+  /**
+   * Position of NULL values in the sort order, regardless of the driver.
+   * Defaults to `last` for nullable and joined columns.
+   */
+  nulls?: 'first' | 'last';
+  /**
+   * SQL expression to sort by instead of a column, like `LOWER(post.title)`.
+   * It is put in the query as it is, so it must never come from user input.
+   */
+  expression?: string;
+  /**
+   * Read the sort value from a node.
+   * Defaults to the entity value for columns of the main alias, and to the selected value otherwise.
+   */
+  getValue?: (node: any) => any;
+}
+
+/**
+ * A sort option resolved against the metadata of the main alias.
+ */
+export interface EntityConnectionSortColumn extends EntityConnectionSortOption {
+  /**
+   * The sorted column, unless sorted by an expression.
+   */
+  column?: ColumnMetadata;
+  /**
+   * SQL expression of the sort key, like `"post"."created_at"` for a column.
+   */
+  expression: string;
+  /**
+   * Alias of the selection the sort value is read from, for keys which are not columns of the main alias.
+   */
+  selection?: string;
+}
+
+/**
+ * Options of `EntityConnection`. The cursor codec defaults to `TypedJSONCursorCodec`.
+ */
+export interface EntityConnectionOptions extends CursorOptions, PageSizeOptions {
+  /**
+   * Append the primary columns of the entity to the sort options
+   * when they do not already cover a unique set of columns. Defaults to `true`.
+   */
+  tieBreaker?: boolean;
+  /**
+   * How `totalCount` is computed. It is only computed when resolved.
+   */
+  totalCount?: TotalCountOptions;
+  /**
+   * How cursor predicates are written when the sort columns share a direction and are not nullable.
+   * `rowValue` compares row values like `(a, b) > (:a, :b)` so that a composite index can be scanned,
+   * `expanded` expands the comparison to ORs of ANDs, and `auto` uses row values when the database supports them.
+   * Predicates of other sort columns are always expanded. Defaults to `auto`.
+   */
+  keysetPredicate?: 'auto' | 'rowValue' | 'expanded';
+}
+
+/**
+ * Options of `EntityConnection.iterate`.
+ */
+export interface EntityConnectionIterateOptions extends ConnectionIterateOptions {
+  /**
+   * Read the rows of each batch one by one with TypeORM's `stream()` instead of loading the batch at once.
+   * It requires a driver supporting streams and a query builder loading a single row per entity. Defaults to `false`.
+   */
+  stream?: boolean;
+}
+
+/**
+ * Arguments of `EntityConnection`. `around` starts the pagination around the node of its cursor,
+ * with `last` nodes before it and `first` nodes after it.
+ * `offset` skips a number of nodes, and `page` skips the nodes of the pages of `first` nodes before it.
+ * They are ignored when `after` or `before` is given, so that cursors keep paginating by keyset.
+ */
+export interface EntityConnectionArguments extends ConnectionArguments {
+  around?: string | null;
+  offset?: number | null;
+  /**
+   * Number of the page to load, starting from `1`.
+   */
+  page?: number | null;
+}
+
+/**
+ * Page info of `EntityConnection`, with the page numbers for page-number navigation.
+ */
+export class EntityConnectionPageInfo<TConnection extends EntityConnection<any>> extends PageInfo<TConnection> {
+  /**
+   * Number of the current page, counting pages of `first` nodes from the start and pages of `last` nodes from the end.
+   * Pages reached with a cursor are numbered by the nodes around them. `null` for an empty page reached with a cursor.
+   */
+  get currentPage(): Promise<number | null> {
+    return this.connection.resolveCurrentPage();
+  }
+
+  /**
+   * Number of pages of `first` or `last` nodes, estimated when the total count is,
+   * but never below the current page.
+   */
+  get pageCount(): Promise<number> {
+    return this.connection.resolvePageCount();
+  }
 }
 
 export class EntityConnection<TEntity extends Object> extends Connection<TEntity, TEntity> {
@@ -14,38 +140,105 @@ export class EntityConnection<TEntity extends Object> extends Connection<TEntity
   protected limit?: number;
   protected afterKey?: any[];
   protected beforeKey?: any[];
+  protected aroundKey?: any[];
+  protected offset?: number;
   protected afterSelector?: Brackets;
   protected beforeSelector?: Brackets;
+  protected cursorCodec: CursorCodec;
+  protected sortColumns: EntityConnectionSortColumn[];
+  protected totalCounter: TotalCounter;
 
   constructor(
-    args: ConnectionArguments,
+    args: EntityConnectionArguments,
     public sortOptions: EntityConnectionSortOption[],
     public queryBuilder: SelectQueryBuilder<TEntity>,
+    public options: EntityConnectionOptions = {},
   ) {
-    super(args);
-    if (args.first && args.last) {
-      throw new Error('Argument "first" and "last" must not be included at the same time');
+    super(applyPageSizeOptions(validateConnectionArguments(args), options));
+    this.totalCounter = new TotalCounter(options.totalCount, {
+      count: limit => this.countNodes(limit),
+      estimate: () => this.queryEstimatedCount(),
+    });
+    this.sortColumns = sortOptions.map((sortOption, i) => this.resolveSortOption(sortOption, i));
+    if (options.tieBreaker !== false) {
+      this.sortColumns = this.appendTieBreaker(this.sortColumns);
     }
+    this.sortOptions = this.sortColumns.map(({ sort, order, nulls, getValue, column, expression }) => (
+      column ? { sort, order, nulls, getValue } : { sort, order, nulls, getValue, expression }
+    ));
+    this.cursorCodec = createCursorCodec(
+      options,
+      createEntityCursorFingerprint(this.sortOptions, options.cursorScope),
+      () => new TypedJSONCursorCodec(),
+    );
 
-    this.limit = args.first || args.last || undefined;
+    this.limit = this.args.first || this.args.last || undefined;
 
     if (args.after) {
-      this.afterKey = this.explodeCursor(args.after);
+      this.afterKey = this.explodeCursor(args.after, 'after');
       this.afterSelector = this.keyToSelector(this.afterKey, 'after');
     }
     if (args.before) {
-      this.beforeKey = this.explodeCursor(args.before);
+      this.beforeKey = this.explodeCursor(args.before, 'before');
       this.beforeSelector = this.keyToSelector(this.beforeKey, 'before');
     }
+    if (args.around) {
+      this.aroundKey = this.explodeCursor(args.around, 'around');
+    }
+    if (!args.after && !args.before) {
+      this.offset = this.resolveOffset();
+    }
+  }
+
+  /**
+   * The number of rows skipped by the `offset` or `page` argument.
+   */
+  protected resolveOffset(): number | undefined {
+    const { offset, page, first } = this.args as EntityConnectionArguments;
+    if (typeof offset === 'number') {
+      return offset;
+    }
+    if (typeof page === 'number') {
+      if (typeof first !== 'number') {
+        throw new InvalidArgumentsError('Argument "page" requires "first" or a default page size', { argument: 'page' });
+      }
+      return (page - 1) * first;
+    }
+    return undefined;
+  }
+
+  get pageInfo(): EntityConnectionPageInfo<this> {
+    return new EntityConnectionPageInfo(this);
   }
 
   public edges: Promise<Edge<EntityConnection<TEntity>>[]>;
 
   resolveCursor(item: TEntity): string {
-    const key = this.sortOptions.map(({ sort }) => item[sort as keyof TEntity]);
-    return Buffer.from(JSON.stringify(key)).toString('base64');
+    return this.cursorCodec.encode(this.keys.get(item) || this.getKey(item));
+  }
+
+  /**
+   * Read the sort key of a node, from the raw row it was loaded with for keys which are not columns of the main alias.
+   */
+  protected getKey(item: TEntity, rawRow?: any): any[] {
+    const { driver } = this.queryBuilder.connection;
+    return this.sortColumns.map(({ column, selection, getValue, sort }) => {
+      if (getValue) {
+        return getValue(item);
+      }
+      if (!selection) {
+        return column!.getEntityValue(item);
+      }
+      if (!rawRow) {
+        throw new Error(`Cannot read the value of "${sort}" from a node which was not loaded by the connection`);
+      }
+      const value = rawRow[selection];
+      return column ? driver.prepareHydratedValue(value, column) : value;
+    });
   }
 
+  protected keys = new WeakMap<TEntity, any[]>();
+
   resolveNode(item: TEntity): TEntity {
     return item;
   }
@@ -57,17 +250,16 @@ export class EntityConnection<TEntity extends Object> extends Connection<TEntity
   async resolveHasNextPage() {
     const { first, before } = this.args;
 
+    if (this.aroundKey) {
+      await this.getEdgeSources();
+      return this.hasExtraRow;
+    }
     if (typeof first === 'number') {
-      const queryBuilder = this.createAppliedQueryBuilder();
-      const limitOrMore = await queryBuilder.getCount();
-      return limitOrMore > first;
+      await this.getEdgeSources();
+      return this.hasExtraRow;
     }
     if (typeof before === 'string') {
-      const afterBeforeSelector = this.keyToSelector(this.beforeKey!, 'after');
-      const queryBuilder = this.createQueryBuilder();
-
-      const countAfterBefore = await queryBuilder.andWhere(afterBeforeSelector).getCount();
-      return countAfterBefore > 0;
+      return this.exists(this.keyToSelector(this.beforeKey!, 'after'));
     }
     return false;
   }
@@ -75,20 +267,149 @@ export class EntityConnection<TEntity extends Object> extends Connection<TEntity
   async resolveHasPreviousPage() {
     const { last, after } = this.args;
 
+    if (this.aroundKey) {
+      await this.getEdgeSources();
+      return this.hasExtraRowBefore;
+    }
     if (typeof last === 'number') {
-      const queryBuilder = this.createAppliedQueryBuilder();
-      const limitOrMore = await queryBuilder.limit(last + 1).getCount();
-      return limitOrMore > last;
+      await this.getEdgeSources();
+      return this.hasExtraRow;
     }
     if (typeof after === 'string') {
-      const beforeAfterSelector = this.keyToSelector(this.afterKey!, 'before');
-      const queryBuilder = this.createQueryBuilder();
-      const countBeforeAfter = await queryBuilder.andWhere(beforeAfterSelector).limit(1).getCount();
-      return countBeforeAfter > 0;
+      return this.exists(this.keyToSelector(this.afterKey!, 'before'));
+    }
+    if (this.offset) {
+      return this.exists();
     }
     return false;
   }
 
+  /**
+   * Number the current page by the nodes before it: the offset, or the count of the nodes before its first node.
+   * Pages of `last` nodes are numbered from the end by the count of the nodes after their last node,
+   * so that the last page is numbered like the page count.
+   * The nodes are counted in the mode of the `totalCount` option, so that the page number is capped or estimated with it.
+   */
+  resolveCurrentPage(): Promise<number | null> {
+    if (!this.currentPagePromise) {
+      this.currentPagePromise = this.queryCurrentPage();
+    }
+    return this.currentPagePromise;
+  }
+
+  protected currentPagePromise: Promise<number | null> | null = null;
+
+  protected async queryCurrentPage(): Promise<number | null> {
+    if (!this.limit) {
+      return 1;
+    }
+    if (this.offset !== undefined) {
+      return Math.floor(this.offset / this.limit) + 1;
+    }
+    const edgeSources = await this.getEdgeSources();
+    if (edgeSources.length === 0) {
+      return this.afterKey || this.beforeKey ? null : 1;
+    }
+    const first = edgeSources[0];
+    const { count: countBefore } = await this.countRows(this.keyToSelector(this.keys.get(first) || this.getKey(first), 'before'));
+    if (typeof this.args.last !== 'number' || this.aroundKey) {
+      return Math.floor(countBefore / this.limit) + 1;
+    }
+    const last = edgeSources[edgeSources.length - 1];
+    const { count: countAfter } = await this.countRows(this.keyToSelector(this.keys.get(last) || this.getKey(last), 'after'));
+    const count = countBefore + edgeSources.length + countAfter;
+    return Math.ceil(count / this.limit) - Math.floor(countAfter / this.limit);
+  }
+
+  /**
+   * Count the pages from the total count, so that it is estimated or capped with it.
+   * The page count is raised to the current page, and to the page after it while there is a next page,
+   * like when the base query changed between the requests or the count is inexact.
+   */
+  async resolvePageCount(): Promise<number> {
+    if (!this.limit) {
+      return 1;
+    }
+    const [{ count }, currentPage, hasNextPage] = await Promise.all([
+      this.resolveTotalCount(),
+      this.resolveCurrentPage(),
+      this.resolveHasNextPage(),
+    ]);
+    const pageCount = Math.max(Math.ceil(count / this.limit), 1);
+    if (currentPage === null) {
+      return pageCount;
+    }
+    return Math.max(pageCount, hasNextPage ? currentPage + 1 : currentPage);
+  }
+
+  /**
+   * Count the rows of the base query matching the selector in the mode of the `totalCount` option.
+   */
+  protected countRows(selector: Brackets): Promise<TotalCount> {
+    return countInMode(this.options.totalCount || {}, {
+      count: limit => this.countNodes(limit, selector),
+      estimate: () => this.queryEstimatedCount(selector),
+    });
+  }
+
+  /**
+   * The number of nodes of the connection, ignoring the pagination arguments.
+   */
+  get totalCount(): Promise<TotalCount> {
+    return this.resolveTotalCount();
+  }
+
+  resolveTotalCount(): Promise<TotalCount> {
+    return this.totalCounter.resolve();
+  }
+
+  /**
+   * Count the rows of the base query, or up to `limit` rows in a subquery, optionally matching the selector.
+   */
+  protected async countNodes(limit?: number, selector?: Brackets): Promise<number> {
+    const queryBuilder = this.createQueryBuilder().orderBy();
+    if (selector) {
+      queryBuilder.andWhere(selector);
+    }
+    if (limit === undefined) {
+      return queryBuilder.getCount();
+    }
+    const subQuery = queryBuilder.select('1', 'probe').limit(limit);
+    const { count } = await this.queryBuilder.connection.createQueryBuilder()
+      .select('COUNT(*)', 'count')
+      .from(`(${subQuery.getQuery()})`, 'capped')
+      .setParameters(subQuery.getParameters())
+      .getRawOne();
+    return Number(count);
+  }
+
+  /**
+   * Estimate the number of rows of the base query, optionally matching the selector, from the query planner.
+   * Resolves `null` when the driver has no row estimates.
+   */
+  protected async queryEstimatedCount(selector?: Brackets): Promise<number | null> {
+    const { connection } = this.queryBuilder;
+    const queryBuilder = this.createQueryBuilder().orderBy();
+    if (selector) {
+      queryBuilder.andWhere(selector);
+    }
+    const [query, parameters] = queryBuilder.getQueryAndParameters();
+
+    switch (connection.options.type) {
+      case 'postgres': {
+        const [{ 'QUERY PLAN': plan }] = await connection.query(`EXPLAIN (FORMAT JSON) ${query}`, parameters);
+        return Number(plan[0].Plan['Plan Rows']);
+      }
+      case 'mysql':
+      case 'mariadb': {
+        const [{ rows }] = await connection.query(`EXPLAIN ${query}`, parameters);
+        return Number(rows);
+      }
+      default:
+        return null;
+    }
+  }
+
   getEdgeSources(): Promise<TEntity[]> {
     if (!this.queryPromise) {
       this.queryPromise = this.query();
@@ -97,31 +418,241 @@ export class EntityConnection<TEntity extends Object> extends Connection<TEntity
   }
 
   async query(): Promise<TEntity[]> {
-    const { sortOptions } = this;
-
+    if (this.afterKey || this.beforeKey || this.aroundKey) {
+      await this.resolveKeysetPredicate();
+    }
+    if (this.aroundKey) {
+      return this.queryAround(this.aroundKey);
+    }
+    const reverse = typeof this.args.last === 'number';
     const queryBuilder = this.createAppliedQueryBuilder();
+    if (this.offset) {
+      queryBuilder.offset(this.offset);
+    }
+    return this.receiveEdgeSources(await this.queryRows(queryBuilder, reverse, this.limit));
+  }
 
-    const reverse = typeof this.args.last === 'number';
-    const appliedOrderMap: any = {
+  /**
+   * Load the rows of the query builder in the sort order, or in the reversed order,
+   * with one more row than the limit.
+   */
+  protected async queryRows(queryBuilder: SelectQueryBuilder<TEntity>, reverse: boolean, limit?: number): Promise<TEntity[]> {
+    this.applyKeysetOrder(queryBuilder, reverse, limit);
+
+    if (this.sortColumns.some(({ selection }) => selection !== undefined)) {
+      const { entities, raw } = await queryBuilder.getRawAndEntities();
+      const rawRows = this.groupRawRows(raw);
+      entities.forEach((entity, i) => this.keys.set(entity, this.getKey(entity, rawRows[i])));
+      return entities;
+    }
+    return queryBuilder.getMany();
+  }
+
+  /**
+   * Stream the rows of the query builder in the sort order with TypeORM's `stream()`, hydrating the entities one by one,
+   * with one more row than the limit. It requires the query builder to load a single row per entity.
+   * When iteration stops before the end, by a break or an error, the rest of the stream is read anyway,
+   * because TypeORM releases the query runner of a stream only when it ends or fails.
+   */
+  protected async *streamRows(queryBuilder: SelectQueryBuilder<TEntity>, limit: number): AsyncIterableIterator<TEntity> {
+    this.applyKeysetOrder(queryBuilder, false, limit);
+    const { expressionMap, connection } = queryBuilder;
+    const transformer = new RawSqlResultsToEntityTransformer(expressionMap, connection.driver, [], []);
+    const selected = this.sortColumns.some(({ selection }) => selection !== undefined);
+
+    const stream: ReadStream = await queryBuilder.stream();
+    const rows = stream[Symbol.asyncIterator]();
+    let ended = false;
+    try {
+      while (true) {
+        const { done, value: row } = await rows.next();
+        if (done) {
+          ended = true;
+          return;
+        }
+        const [entity] = transformer.transform([row], expressionMap.mainAlias!);
+        if (selected) {
+          this.keys.set(entity, this.getKey(entity, row));
+        }
+        yield entity;
+      }
+    } finally {
+      if (!ended) {
+        try {
+          let result: IteratorResult<any>;
+          do {
+            result = await rows.next();
+          } while (!result.done);
+        } catch (error) {
+          // a failed stream releases its query runner
+          stream.destroy(error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Order the query builder by the sort columns, or in the reversed order, selecting the sort keys
+   * and limiting it to one more row than the limit.
+   */
+  protected applyKeysetOrder(queryBuilder: SelectQueryBuilder<TEntity>, reverse: boolean, limit?: number) {
+    queryBuilder.orderBy();
+    for (const [expression, order] of this.getOrderByTerms(reverse)) {
+      queryBuilder.addOrderBy(expression, order);
+    }
+    this.addKeySelections(queryBuilder);
+
+    if (typeof limit === 'number') {
+      queryBuilder.limit(limit + 1);
+    }
+  }
+
+  /**
+   * Iterate every node after the `after` cursor in the sort order, loading `batchSize` nodes per query,
+   * so that memory stays bounded on large tables. `first` and `last` are ignored, and `before` ends the iteration.
+   * Resume an interrupted iteration with the cursor of the last node it yielded.
+   */
+  async *iterate(options: EntityConnectionIterateOptions = {}): AsyncIterableIterator<TEntity> {
+    const { batchSize = 100, stream = false } = options;
+    validateBatchSize(batchSize);
+    const after = options.after !== undefined ? options.after : this.args.after;
+    let key = after ? this.explodeCursor(after, 'after') : undefined;
+    await this.resolveKeysetPredicate();
+
+    while (true) {
+      const queryBuilder = this.createQueryBuilder();
+      if (key) { queryBuilder.andWhere(this.keyToSelector(key, 'after')); }
+      if (this.beforeSelector) { queryBuilder.andWhere(this.beforeSelector); }
+
+      let count = 0;
+      let last: TEntity | undefined;
+      const entities = stream ? this.streamRows(queryBuilder, batchSize) : await this.queryRows(queryBuilder, false, batchSize);
+      // read the stream to its end rather than leaving the extra row unread
+      for await (const entity of entities) {
+        if (count++ < batchSize) {
+          last = entity;
+          yield entity;
+        }
+      }
+      // the extra row tells whether there is another batch
+      if (count <= batchSize) {
+        return;
+      }
+      key = this.keys.get(last!) || this.getKey(last!);
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<TEntity> {
+    return this.iterate();
+  }
+
+  /**
+   * Load the `last` rows before the key, the row of the key and the `first` rows after it.
+   * A side without its argument loads no rows, only whether there are any.
+   */
+  protected async queryAround(key: any[]): Promise<TEntity[]> {
+    const { first, last } = this.args;
+    const [before, anchor, after] = await Promise.all([
+      this.queryRows(this.createQueryBuilder().andWhere(this.keyToSelector(key, 'before')), true, last || 0),
+      this.queryRows(this.createQueryBuilder().andWhere(this.keyToEqualitySelector(key)), false, 1),
+      this.queryRows(this.createQueryBuilder().andWhere(this.keyToSelector(key, 'after')), false, first || 0),
+    ]);
+
+    if (before.length > (last || 0)) {
+      this.hasExtraRowBefore = true;
+      before.splice(last || 0);
+    }
+    if (after.length > (first || 0)) {
+      this.hasExtraRow = true;
+      after.splice(first || 0);
+    }
+    return [...before.reverse(), ...anchor.slice(0, 1), ...after];
+  }
+
+  protected hasExtraRowBefore = false;
+
+  /**
+   * The ORDER BY terms of the sort columns, reversed when paginating with `last`.
+   */
+  protected getOrderByTerms(reverse = typeof this.args.last === 'number'): [string, 'ASC' | 'DESC'][] {
+    const appliedOrderMap: { [order: string]: 'ASC' | 'DESC' } = {
       ASC: reverse ? 'DESC' : 'ASC',
       DESC: reverse ? 'ASC' : 'DESC',
     };
-    queryBuilder.orderBy();
-    for (let i = 0; i < sortOptions.length; i++) {
-      const { sort, order } = sortOptions[i];
-      queryBuilder.addOrderBy(`${sort}`, appliedOrderMap[order]);
+    const terms: [string, 'ASC' | 'DESC'][] = [];
+    for (const { expression, order, nulls } of this.sortColumns) {
+      if (nulls) {
+        terms.push([`CASE WHEN ${expression} IS NULL THEN 1 ELSE 0 END`, appliedOrderMap[nulls === 'last' ? 'ASC' : 'DESC']]);
+      }
+      terms.push([expression, appliedOrderMap[order]]);
     }
+    return terms;
+  }
 
-    if (this.limit) {
-      queryBuilder.limit(this.limit);
+  /**
+   * Select the values of the sort keys which are not read from the entities.
+   */
+  protected addKeySelections(queryBuilder: SelectQueryBuilder<TEntity>) {
+    for (const { expression, selection } of this.sortColumns) {
+      if (selection) {
+        queryBuilder.addSelect(expression, selection);
+      }
     }
+  }
 
-    const entities = await queryBuilder.getMany();
-    if (reverse) { entities.reverse(); }
+  /**
+   * Turn the rows loaded for the page, with the extra row, into the edge sources in the order of the connection.
+   * `rawRows` are the raw rows of the entities when a sort key is selected.
+   */
+  protected receiveEdgeSources(entities: TEntity[], rawRows?: any[]): TEntity[] {
+    if (rawRows) {
+      entities.forEach((entity, i) => this.keys.set(entity, this.getKey(entity, rawRows[i])));
+    }
+    if (trimExtraNode(entities, this.limit, typeof this.args.last === 'number')) {
+      this.hasExtraRow = true;
+    }
     return entities;
   }
 
   protected queryPromise: Promise<TEntity[]> | null = null;
+  protected hasExtraRow = false;
+
+  /**
+   * Pick the first raw row of each entity, grouping the rows by the primary columns the same way TypeORM does,
+   * so that the rows are in the order of the entities.
+   */
+  protected groupRawRows(raw: any[]): any[] {
+    const { connection, expressionMap } = this.queryBuilder;
+    const mainAlias = expressionMap.mainAlias!;
+    const keys = mainAlias.metadata.primaryColumns
+      .map(column => DriverUtils.buildColumnAlias(connection.driver, mainAlias.name, column.databaseName));
+
+    const rows = new Map<string, any>();
+    for (const row of raw) {
+      const id = keys.map(key => Buffer.isBuffer(row[key]) ? row[key].toString('hex') : row[key]).join('_');
+      if (id && !rows.has(id)) {
+        rows.set(id, row);
+      }
+    }
+    return Array.from(rows.values());
+  }
+
+  /**
+   * Check whether the base query has any row, or any row matching the selector, without counting them.
+   */
+  protected async exists(selector?: Brackets): Promise<boolean> {
+    await this.resolveKeysetPredicate();
+    const queryBuilder = this.createQueryBuilder();
+    if (selector) {
+      queryBuilder.andWhere(selector);
+    }
+    const row = await queryBuilder
+      .select('1', 'probe')
+      .orderBy()
+      .limit(1)
+      .getRawOne();
+    return row !== undefined;
+  }
 
   createAppliedQueryBuilder() {
     const queryBuilder = this.createQueryBuilder();
@@ -130,37 +661,213 @@ export class EntityConnection<TEntity extends Object> extends Connection<TEntity
     return queryBuilder;
   }
 
-  protected explodeCursor(cursor: string): any[] {
-    const buffer = Buffer.from(cursor, 'base64');
-    return JSON.parse(buffer.toString());
+  protected explodeCursor(cursor: string, argument: 'after' | 'before' | 'around'): any[] {
+    return decodeCursor(this.cursorCodec, cursor, argument, this.sortOptions.length);
+  }
+
+  /**
+   * Build the cursor of the node with the primary key, like `1` or `{ id: 1 }`, among the nodes of the base query,
+   * to start the pagination from a node the client has no cursor for. Resolves `null` when no node matches.
+   */
+  async cursorForId(id: any): Promise<string | null> {
+    const [entity] = await this.queryRows(this.createQueryBuilder().andWhereInIds(id), false);
+    return entity ? this.resolveCursor(entity) : null;
+  }
+
+  /**
+   * Resolve a sort option to an expression or to a column of the main alias or a joined alias,
+   * throwing `InvalidArgumentsError` for unknown fields so that they never reach the query.
+   */
+  protected resolveSortOption(sortOption: EntityConnectionSortOption, index: number): EntityConnectionSortColumn {
+    const { sort, order, nulls, expression, getValue } = sortOption;
+    const { mainAlias } = this.queryBuilder.expressionMap;
+    if (!mainAlias || !mainAlias.hasMetadata) {
+      throw new Error('EntityConnection requires a query builder selecting an entity');
+    }
+    validateSortOption(sortOption);
+    const selection = `cursor_${index}`;
+    if (expression) {
+      return { sort, order, nulls, expression, getValue, selection };
+    }
+
+    const propertyPath = sort.startsWith(`${mainAlias.name}.`) ? sort.slice(mainAlias.name.length + 1) : sort;
+    const column = mainAlias.metadata.findColumnWithPropertyPath(propertyPath);
+    if (column) {
+      return {
+        sort,
+        order,
+        nulls: nulls || (column.isNullable ? 'last' : undefined),
+        getValue,
+        column,
+        expression: this.getColumnExpression(mainAlias, column),
+      };
+    }
+
+    const joinedAlias = this.findJoinedAlias(sort.slice(0, sort.indexOf('.')));
+    const joinedColumn = joinedAlias && joinedAlias.metadata.findColumnWithPropertyPath(sort.slice(sort.indexOf('.') + 1));
+    if (joinedAlias && joinedColumn) {
+      return {
+        sort,
+        order,
+        nulls: nulls || 'last',
+        getValue,
+        column: joinedColumn,
+        expression: this.getColumnExpression(joinedAlias, joinedColumn),
+        selection,
+      };
+    }
+    throw new InvalidArgumentsError(`Cannot sort by unknown field "${sort}"`, { sort });
+  }
+
+  /**
+   * Find an alias joined to the query builder by its name or by the relation property of the main alias.
+   */
+  protected findJoinedAlias(name: string): Alias | undefined {
+    const { joinAttributes, mainAlias } = this.queryBuilder.expressionMap;
+    const join = joinAttributes.find(({ alias, parentAlias, relationPropertyPath }) => (
+      alias.name === name || (parentAlias === mainAlias!.name && relationPropertyPath === name)
+    ));
+    return join && join.alias.hasMetadata ? join.alias : undefined;
+  }
+
+  protected getColumnExpression(alias: Alias, column: ColumnMetadata): string {
+    const { queryBuilder } = this;
+    return `${queryBuilder.escape(alias.name)}.${queryBuilder.escape(column.databaseName)}`;
+  }
+
+  /**
+   * Append the primary columns of the main alias to the sort columns, in the order of the last sort column,
+   * unless the sort columns already cover the primary columns or a unique constraint of non-nullable columns.
+   */
+  protected appendTieBreaker(sortColumns: EntityConnectionSortColumn[]): EntityConnectionSortColumn[] {
+    const { primaryColumns, uniques, indices } = this.queryBuilder.expressionMap.mainAlias!.metadata;
+    const columns = sortColumns.map(({ column }) => column);
+
+    const uniqueColumnSets = [
+      primaryColumns,
+      ...uniques.map(unique => unique.columns),
+      ...indices.filter(index => index.isUnique && !index.where).map(index => index.columns),
+    ];
+    const covered = uniqueColumnSets.some((uniqueColumns, i) => uniqueColumns.length > 0 && uniqueColumns.every(column => (
+      columns.indexOf(column) !== -1 && (i === 0 || !column.isNullable)
+    )));
+    if (covered) {
+      return sortColumns;
+    }
+
+    const order = sortColumns.length > 0 ? sortColumns[sortColumns.length - 1].order : 'ASC';
+    return [
+      ...sortColumns,
+      ...primaryColumns
+        .filter(column => columns.indexOf(column) === -1)
+        .map(column => ({
+          sort: column.propertyPath,
+          order,
+          column,
+          expression: this.getColumnExpression(this.queryBuilder.expressionMap.mainAlias!, column),
+        })),
+    ];
+  }
+
+  /**
+   * Convert a cursor key value to the parameter the driver expects for the sort column,
+   * the same way TypeORM prepares values being persisted.
+   */
+  protected prepareParameter(column: ColumnMetadata | undefined, value: any): any {
+    return column ? this.queryBuilder.connection.driver.preparePersistentValue(value, column) : value;
+  }
+
+  /**
+   * Decide whether the cursor predicates compare row values, detecting the support of the database if needed.
+   * Predicates are written when the query builders are created, so this resolves before creating them.
+   */
+  protected async resolveKeysetPredicate(): Promise<void> {
+    const { sortColumns } = this;
+    const { keysetPredicate = 'auto' } = this.options;
+
+    const comparable = sortColumns.length > 1
+      && sortColumns.every(({ order, nulls }) => order === sortColumns[0].order && !nulls);
+    if (!comparable || keysetPredicate === 'expanded') {
+      this.rowValueComparison = false;
+    } else if (keysetPredicate === 'rowValue') {
+      this.rowValueComparison = true;
+    } else {
+      this.rowValueComparison = await supportsRowValueComparison(this.queryBuilder.connection);
+    }
+  }
+
+  protected rowValueComparison = false;
+
+  /**
+   * Build the predicate selecting the rows equal to the key on every sort column.
+   */
+  protected keyToEqualitySelector(key: any[]): Brackets {
+    return new Brackets(qb => {
+      this.sortColumns.forEach(({ expression, column }, i) => {
+        if (key[i] === null || key[i] === undefined) {
+          qb.andWhere(`${expression} IS NULL`);
+        } else {
+          qb.andWhere(`${expression} = :around__${i}`, { [`around__${i}`]: this.prepareParameter(column, key[i]) });
+        }
+      });
+    });
   }
 
+  /**
+   * Build the keyset predicate selecting the rows after or before the key in the sort order:
+   * rows equal to the key on the first `i` sort columns and after or before it on the next one, for any `i`.
+   * Comparisons of nullable columns follow the NULLS FIRST/LAST position of the column.
+   * It is written as a single row value comparison when `rowValueComparison` is resolved.
+   */
   protected keyToSelector(key: any[], direction: 'after' | 'before'): Brackets {
-    const eq = direction === 'after'
-      ? ['>', '<', '>=', '<=']
-      : ['<', '>', '<=', '>='];
-    const { sortOptions } = this;
+    const { sortColumns } = this;
+
+    const equalities: string[] = [];
+    const comparisons: string[][] = [];
+    const parameters: { [name: string]: any } = {};
+    for (let i = 0; i < sortColumns.length; i++) {
+      const { expression, order, nulls, column } = sortColumns[i];
+      const value = key[i];
+      const parameterName = `${direction}__${i}`;
+      parameters[parameterName] = this.prepareParameter(column, value);
+
+      const operator = (order === 'ASC') === (direction === 'after') ? '>' : '<';
+      const nullsFollow = nulls === (direction === 'after' ? 'last' : 'first');
+
+      if (value === null || value === undefined) {
+        // nothing follows NULL when NULLs are placed at the end in this direction
+        if (!nullsFollow) {
+          comparisons.push([...equalities, `${expression} IS NOT NULL`]);
+        }
+        equalities.push(`${expression} IS NULL`);
+      } else {
+        comparisons.push([
+          ...equalities,
+          nullsFollow
+            ? `(${expression} ${operator} :${parameterName} OR ${expression} IS NULL)`
+            : `${expression} ${operator} :${parameterName}`,
+        ]);
+        equalities.push(`${expression} = :${parameterName}`);
+      }
+    }
 
     return new Brackets(rootQb => {
-      for (let i = 0; i < sortOptions.length; i++) {
-        const subKeySetComparison = new Brackets(qb => {
-          const subKeySet = key.slice(0, i + 1);
-
-          for (let j = 0; j < subKeySet.length; j++) {
-            const { sort, order } = sortOptions[j];
-            const cursorKey = subKeySet[j];
-            const paramterName = `${direction}__${sort}`;
-
-            let equality: string;
-            if (j === i) {
-              equality = (order === 'ASC') ? eq[0] : eq[1];
-            } else {
-              equality = (order === 'ASC') ? eq[2] : eq[3];
-            }
-            qb.andWhere(`${sort} ${equality} :${paramterName}`, { [paramterName]: cursorKey });
+      if (this.rowValueComparison) {
+        const operator = (sortColumns[0].order === 'ASC') === (direction === 'after') ? '>' : '<';
+        const expressions = sortColumns.map(({ expression }) => expression);
+        const parameterNames = sortColumns.map((_, i) => `:${direction}__${i}`);
+        rootQb.where(`(${expressions.join(', ')}) ${operator} (${parameterNames.join(', ')})`, parameters);
+        return;
+      }
+      if (comparisons.length === 0) {
+        rootQb.where('1 = 0');
+      }
+      for (const subKeySetConditions of comparisons) {
+        rootQb.orWhere(new Brackets(qb => {
+          for (const condition of subKeySetConditions) {
+            qb.andWhere(condition, parameters);
           }
-        });
-        rootQb.orWhere(subKeySetComparison);
+        }));
       }
     });
   }
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+
+import { CursorCodec } from './CursorCodec';
+import { CursorMismatchError } from './errors';
+
+
+export interface CursorFingerprint {
+  /**
+   * Short hash prepended to every cursor key.
+   */
+  hash: string;
+  /**
+   * Human readable description of what the hash was computed from, used in error messages.
+   */
+  description: string;
+}
+
+/**
+ * Compute the fingerprint of a connection from its type, its sort specification and an optional scope.
+ */
+export function createCursorFingerprint(kind: string, sortSpec: [string, string][], scope?: string): CursorFingerprint {
+  const hash = createHash('sha256')
+    .update(JSON.stringify([kind, sortSpec, scope === undefined ? null : scope]))
+    .digest('base64')
+    .slice(0, 8);
+
+  let description = `${kind} sorted by ${sortSpec.map(([field, order]) => `${field} ${order}`).join(', ')}`;
+  if (scope !== undefined) {
+    description += ` in scope "${scope}"`;
+  }
+  return { hash, description };
+}
+
+/**
+ * Prepends the connection fingerprint to the keys of the wrapped codec
+ * and rejects cursors issued for another connection with a `CursorMismatchError`.
+ */
+export class FingerprintedCursorCodec implements CursorCodec {
+
+  constructor(protected codec: CursorCodec, protected fingerprint: CursorFingerprint) {}
+
+  encode(key: any[]): string {
+    return this.codec.encode([this.fingerprint.hash, ...key]);
+  }
+
+  decode(cursor: string): any[] {
+    const key = this.codec.decode(cursor);
+    if (!Array.isArray(key) || key[0] !== this.fingerprint.hash) {
+      throw new CursorMismatchError(`Cursor was not issued for ${this.fingerprint.description}`);
+    }
+    return key.slice(1);
+  }
+}
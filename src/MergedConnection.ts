@@ -0,0 +1,246 @@
+import { Connection, ConnectionArguments, Edge } from '@girin/connection';
+
+import { PageSizeOptions, applyPageSizeOptions, validateConnectionArguments } from './arguments';
+import { CursorCodec, CursorOptions, JSONCursorCodec, createCursorCodec, decodeCursor } from './CursorCodec';
+import { InvalidCursorError } from './errors';
+import { createCursorFingerprint } from './FingerprintedCursorCodec';
+import { KeysetOrder, compareKeys } from './keyset';
+
+
+/**
+ * Options of `MergedConnection`. The cursor codec defaults to `JSONCursorCodec`.
+ */
+export interface MergedConnectionOptions<TNode> extends CursorOptions, PageSizeOptions {
+  /**
+   * Create the connection of each source with the given arguments, like an `EntityConnection` of each table.
+   * Every source must be sorted in the order of `orders`.
+   */
+  sources: ((args: ConnectionArguments) => Connection<TNode, any>)[];
+  /**
+   * Directions and NULL positions of the sort key shared by the sources.
+   */
+  orders: KeysetOrder[];
+  /**
+   * Read the shared sort key of a node of any source, like `[node.createdAt, node.id]`.
+   * Nodes with equal keys are merged in the order of the sources.
+   */
+  getKey(node: TNode): any[];
+}
+
+/**
+ * A node of a source with its position in the merged order.
+ */
+interface MergedEdgeSource<TNode> {
+  node: TNode;
+  source: number;
+  key: any[];
+  cursor: string;
+  /**
+   * For each source, the cursor of its last node before this one, or `null` when it has none.
+   */
+  previousCursors: (string | null)[];
+  /**
+   * For each source, the cursor of its first node after this one, or `null` when it has none.
+   */
+  nextCursors: (string | null)[];
+}
+
+/**
+ * Connection interleaving the pages of several connections sorted by a shared sort key, like a feed of posts and comments.
+ * The pages of the sources are loaded with one more node than the page size and merged,
+ * and each cursor records the position in every source, so that no UNION query is needed.
+ */
+export class MergedConnection<TNode> extends Connection<TNode, MergedEdgeSource<TNode>> {
+
+  protected limit?: number;
+  /**
+   * For each source, the cursor its page starts after, from the `after` argument.
+   */
+  protected afterCursors: (string | null)[];
+  /**
+   * For each source, the cursor its page ends before, from the `before` argument.
+   */
+  protected beforeCursors: (string | null)[];
+  protected afterSource?: number;
+  protected beforeSource?: number;
+  protected cursorCodec: CursorCodec;
+
+  constructor(args: ConnectionArguments, public options: MergedConnectionOptions<TNode>) {
+    super(applyPageSizeOptions(validateConnectionArguments(args), options));
+    const { sources, orders } = options;
+    this.cursorCodec = createCursorCodec(
+      options,
+      createCursorFingerprint(
+        'MergedConnection',
+        [[String(sources.length), orders.map(({ order, nulls }) => (nulls ? `${order} NULLS ${nulls.toUpperCase()}` : order)).join(', ')]],
+        options.cursorScope,
+      ),
+      () => new JSONCursorCodec(),
+    );
+
+    this.limit = this.args.first || this.args.last || undefined;
+    this.afterCursors = sources.map(() => null);
+    this.beforeCursors = sources.map(() => null);
+
+    if (args.after) {
+      const [source, ...cursors] = this.explodeCursor(args.after, 'after');
+      this.afterSource = source;
+      // the page starts after the node itself in its source, and after the last node before it in the others
+      this.afterCursors = sources.map((_, i) => cursors[i * 2]);
+    }
+    if (args.before) {
+      const [source, ...cursors] = this.explodeCursor(args.before, 'before');
+      this.beforeSource = source;
+      this.beforeCursors = sources.map((_, i) => cursors[i * 2 + 1]);
+    }
+  }
+
+  public edges: Promise<Edge<MergedConnection<TNode>>[]>;
+
+  resolveCursor(item: MergedEdgeSource<TNode>): string {
+    const cursors: (string | null)[] = [];
+    item.previousCursors.forEach((previousCursor, i) => {
+      cursors.push(
+        i === item.source ? item.cursor : previousCursor,
+        i === item.source ? item.cursor : item.nextCursors[i],
+      );
+    });
+    return this.cursorCodec.encode([item.source, ...cursors]);
+  }
+
+  resolveNode(item: MergedEdgeSource<TNode>): TNode {
+    return item.node;
+  }
+
+  async resolveHasNextPage() {
+    const { first, before } = this.args;
+
+    if (typeof first === 'number') {
+      await this.getEdgeSources();
+      return this.hasExtraNode;
+    }
+    if (typeof before === 'string') {
+      // the first node after the `before` node of every other source follows it
+      if (this.beforeCursors.some((cursor, i) => i !== this.beforeSource && cursor !== null)) {
+        return true;
+      }
+      return this.options.sources[this.beforeSource!]({ before: this.beforeCursors[this.beforeSource!] }).pageInfo.hasNextPage;
+    }
+    return false;
+  }
+
+  async resolveHasPreviousPage() {
+    const { last, after } = this.args;
+
+    if (typeof last === 'number') {
+      await this.getEdgeSources();
+      return this.hasExtraNode;
+    }
+    if (typeof after === 'string') {
+      // the last node before the `after` node of every other source precedes it
+      if (this.afterCursors.some((cursor, i) => i !== this.afterSource && cursor !== null)) {
+        return true;
+      }
+      return this.options.sources[this.afterSource!]({ after: this.afterCursors[this.afterSource!] }).pageInfo.hasPreviousPage;
+    }
+    return false;
+  }
+
+  getEdgeSources(): Promise<MergedEdgeSource<TNode>[]> {
+    if (!this.queryPromise) {
+      this.queryPromise = this.query();
+    }
+    return this.queryPromise;
+  }
+
+  async query(): Promise<MergedEdgeSource<TNode>[]> {
+    const { first, last } = this.args;
+    const { sources } = this.options;
+
+    // the extra node of each source also tells where the source continues after the page
+    const pages = await Promise.all(sources.map((createConnection, source) => this.querySource(createConnection, source, {
+      first: typeof first === 'number' ? first + 1 : undefined,
+      last: typeof last === 'number' ? last + 1 : undefined,
+      after: this.afterCursors[source],
+      before: this.beforeCursors[source],
+    })));
+    const merged = this.merge(pages);
+
+    let previousCursors = [...this.afterCursors];
+    for (const item of merged) {
+      item.previousCursors = previousCursors;
+      previousCursors = [...previousCursors];
+      previousCursors[item.source] = item.cursor;
+    }
+    let nextCursors = [...this.beforeCursors];
+    for (let i = merged.length - 1; i >= 0; i--) {
+      merged[i].nextCursors = nextCursors;
+      nextCursors = [...nextCursors];
+      nextCursors[merged[i].source] = merged[i].cursor;
+    }
+
+    if (this.limit && merged.length > this.limit) {
+      this.hasExtraNode = true;
+      return typeof last === 'number' ? merged.slice(-this.limit) : merged.slice(0, this.limit);
+    }
+    return merged;
+  }
+
+  protected queryPromise: Promise<MergedEdgeSource<TNode>[]> | null = null;
+  protected hasExtraNode = false;
+
+  /**
+   * Load a page of a source with its nodes, keys and cursors.
+   */
+  protected async querySource(
+    createConnection: (args: ConnectionArguments) => Connection<TNode, any>,
+    source: number,
+    args: ConnectionArguments,
+  ): Promise<MergedEdgeSource<TNode>[]> {
+    const edges = await createConnection(args).edges;
+    return Promise.all(edges.map(async edge => {
+      const node: TNode = await edge.node;
+      return {
+        node,
+        source,
+        key: this.options.getKey(node),
+        cursor: await edge.cursor,
+        previousCursors: [],
+        nextCursors: [],
+      };
+    }));
+  }
+
+  /**
+   * K-way merge the pages of the sources by the shared sort key, then by the order of the sources.
+   */
+  protected merge(pages: MergedEdgeSource<TNode>[][]): MergedEdgeSource<TNode>[] {
+    const { orders } = this.options;
+    const heads = pages.map(() => 0);
+    const merged: MergedEdgeSource<TNode>[] = [];
+
+    while (true) {
+      let next = -1;
+      for (let source = 0; source < pages.length; source++) {
+        if (heads[source] < pages[source].length && (
+          next === -1 || compareKeys(orders, pages[source][heads[source]].key, pages[next][heads[next]].key) < 0
+        )) {
+          next = source;
+        }
+      }
+      if (next === -1) {
+        return merged;
+      }
+      merged.push(pages[next][heads[next]++]);
+    }
+  }
+
+  protected explodeCursor(cursor: string, argument: 'after' | 'before'): any[] {
+    const key = decodeCursor(this.cursorCodec, cursor, argument, 1 + this.options.sources.length * 2);
+    const [source, ...cursors] = key;
+    if (!Number.isInteger(source) || source < 0 || source >= this.options.sources.length || cursors[source * 2] === null) {
+      throw new InvalidCursorError(`Argument "${argument}" is not a valid cursor`, { argument });
+    }
+    return key;
+  }
+}
@@ -0,0 +1,187 @@
+import { Connection, ConnectionArguments, Edge } from '@girin/connection';
+import { MongoRepository } from 'typeorm';
+
+import { PageSizeOptions, applyPageSizeOptions, validateConnectionArguments } from './arguments';
+import { CursorCodec, CursorOptions, BSONCursorCodec, createCursorCodec, decodeCursor } from './CursorCodec';
+import { trimExtraNode } from './extraNode';
+import { createCursorFingerprint } from './FingerprintedCursorCodec';
+import { MongoEntityConnectionSortOption, Selector } from './MongoEntityConnection';
+import { getPathValue } from './keyset';
+import { keyToMongoSelector } from './mongoKeyset';
+import { TotalCount, TotalCountOptions, TotalCounter } from './totalCount';
+
+
+/**
+ * Options of `MongoAggregationConnection`. The cursor codec defaults to `BSONCursorCodec`.
+ */
+export interface MongoAggregationConnectionOptions extends CursorOptions, PageSizeOptions {
+  /**
+   * Base aggregation pipeline. The cursor stages are appended to it.
+   */
+  pipeline: object[];
+  /**
+   * Fields of the documents produced by the pipeline to sort by, like `author.name` or a field added by `$addFields`.
+   */
+  sortOptions: { [fieldName: string]: 1 | -1 };
+  repository: MongoRepository<any>;
+  /**
+   * Append `_id` to the sort options unless they include it. Defaults to `true`.
+   * Disable it when `_id` is not unique in the documents produced by the pipeline, like after `$unwind`,
+   * and sort by a unique set of fields instead.
+   */
+  tieBreaker?: boolean;
+  /**
+   * How `totalCount` is computed. It is only computed when resolved. Pipelines have no estimated count.
+   */
+  totalCount?: TotalCountOptions;
+}
+
+/**
+ * Connection of the documents produced by an aggregation pipeline, paginated with `$match`, `$sort` and `$limit` stages.
+ */
+export class MongoAggregationConnection<TNode extends Object = any> extends Connection<TNode, TNode> {
+
+  protected limit?: number;
+  protected sortOptions: MongoEntityConnectionSortOption[];
+  protected afterKey?: any[];
+  protected beforeKey?: any[];
+  protected selectors: Selector[] = [];
+  protected cursorCodec: CursorCodec;
+  protected totalCounter: TotalCounter;
+
+  constructor(args: ConnectionArguments, public options: MongoAggregationConnectionOptions) {
+    super(applyPageSizeOptions(validateConnectionArguments(args), options));
+    this.totalCounter = new TotalCounter(options.totalCount, {
+      count: limit => this.count(limit === undefined ? [] : [{ $limit: limit }]),
+    });
+
+    this.sortOptions = Object.keys(options.sortOptions)
+      .map(fieldName => ({ fieldName, order: options.sortOptions[fieldName] }));
+    if (options.tieBreaker !== false && !this.sortOptions.some(({ fieldName }) => fieldName === '_id')) {
+      const order = this.sortOptions.length > 0 ? this.sortOptions[this.sortOptions.length - 1].order : 1;
+      this.sortOptions.push({ fieldName: '_id', order });
+    }
+    this.cursorCodec = createCursorCodec(
+      options,
+      createCursorFingerprint(
+        'MongoAggregationConnection',
+        this.sortOptions.map(({ fieldName, order }) => [fieldName, String(order)] as [string, string]),
+        options.cursorScope,
+      ),
+      () => new BSONCursorCodec(),
+    );
+
+    this.limit = this.args.first || this.args.last || undefined;
+
+    if (args.after) {
+      this.afterKey = this.explodeCursor(args.after, 'after');
+      this.selectors.push(keyToMongoSelector(this.sortOptions, this.afterKey, 'after'));
+    }
+    if (args.before) {
+      this.beforeKey = this.explodeCursor(args.before, 'before');
+      this.selectors.push(keyToMongoSelector(this.sortOptions, this.beforeKey, 'before'));
+    }
+  }
+
+  public edges: Promise<Edge<MongoAggregationConnection<TNode>>[]>;
+
+  resolveCursor(item: TNode): string {
+    const key = this.sortOptions.map(({ fieldName }) => getPathValue(item, fieldName));
+    return this.cursorCodec.encode(key);
+  }
+
+  resolveNode(item: TNode): TNode {
+    return item;
+  }
+
+  async resolveHasNextPage() {
+    const { first, before } = this.args;
+
+    if (typeof first === 'number') {
+      await this.getEdgeSources();
+      return this.hasExtraDocument;
+    }
+    if (typeof before === 'string') {
+      return this.exists(keyToMongoSelector(this.sortOptions, this.beforeKey!, 'after'));
+    }
+    return false;
+  }
+
+  async resolveHasPreviousPage() {
+    const { last, after } = this.args;
+
+    if (typeof last === 'number') {
+      await this.getEdgeSources();
+      return this.hasExtraDocument;
+    }
+    if (typeof after === 'string') {
+      return this.exists(keyToMongoSelector(this.sortOptions, this.afterKey!, 'before'));
+    }
+    return false;
+  }
+
+  /**
+   * The number of nodes of the connection, ignoring the pagination arguments.
+   */
+  get totalCount(): Promise<TotalCount> {
+    return this.resolveTotalCount();
+  }
+
+  resolveTotalCount(): Promise<TotalCount> {
+    return this.totalCounter.resolve();
+  }
+
+  getEdgeSources(): Promise<TNode[]> {
+    if (!this.queryPromise) {
+      this.queryPromise = this.query();
+    }
+    return this.queryPromise;
+  }
+
+  async query(): Promise<TNode[]> {
+    const reverse = typeof this.args.last === 'number';
+    const appliedSortOrder = this.sortOptions.reduce((results, { fieldName, order }) => {
+      results[fieldName] = order * (reverse ? -1 : 1);
+      return results;
+    }, {} as any);
+
+    const stages: object[] = [];
+    if (this.selectors.length > 0) {
+      stages.push({ $match: { $and: this.selectors } });
+    }
+    stages.push({ $sort: appliedSortOrder });
+    if (this.limit) {
+      stages.push({ $limit: this.limit + 1 });
+    }
+    const docs: TNode[] = await this.options.repository.aggregate([...this.options.pipeline, ...stages]).toArray();
+
+    if (trimExtraNode(docs, this.limit, reverse)) {
+      this.hasExtraDocument = true;
+    }
+    return docs;
+  }
+
+  protected queryPromise: Promise<TNode[]> | null = null;
+  protected hasExtraDocument = false;
+
+  /**
+   * Check whether the pipeline produces any document matching the selector, without counting them.
+   */
+  protected async exists(selector: Selector): Promise<boolean> {
+    return (await this.count([{ $match: selector }, { $limit: 1 }])) > 0;
+  }
+
+  /**
+   * Count the documents produced by the pipeline followed by the stages with a `$count` stage.
+   */
+  protected async count(stages: object[]): Promise<number> {
+    const [result] = await this.options.repository
+      .aggregate([...this.options.pipeline, ...stages, { $count: 'count' }])
+      .toArray();
+    return result ? result.count : 0;
+  }
+
+  protected explodeCursor(cursor: string, argument: 'after' | 'before'): any[] {
+    return decodeCursor(this.cursorCodec, cursor, argument, this.sortOptions.length);
+  }
+}
@@ -1,18 +1,64 @@
 import { Connection, ConnectionArguments, Edge } from '@girin/connection';
 import { MongoRepository } from 'typeorm';
+import { MongoDriver } from 'typeorm/driver/mongodb/MongoDriver';
+import { CollationDocument, Collection, MongoClient } from 'typeorm/driver/mongodb/typings';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+import {
+  ConnectionIterateOptions,
+  PageSizeOptions,
+  applyPageSizeOptions,
+  validateBatchSize,
+  validateConnectionArguments,
+} from './arguments';
+import { CursorCodec, CursorOptions, BSONCursorCodec, createCursorCodec, decodeCursor } from './CursorCodec';
+import { createCursorFingerprint } from './FingerprintedCursorCodec';
+import { InvalidArgumentsError } from './errors';
+import { trimExtraNode } from './extraNode';
+import { getPathValue } from './keyset';
+import { keyToMongoSelector, nativeNulls } from './mongoKeyset';
+import { TotalCount, TotalCountOptions, TotalCounter } from './totalCount';
 
 
 export interface MongoEntityConnectionSortOption {
+  /**
+   * Document field to sort by, like `_id` or `stats.views` for a field of an embedded document.
+   * Property paths of the entity, like `id` for its `@ObjectIdColumn()`, are mapped to their fields.
+   */
   fieldName: string;
   order: 1 | -1;
+  /**
+   * Position of null and missing values in the sort order.
+   * Defaults to the MongoDB order, which places them first in ascending order and last in descending order.
+   */
+  nulls?: 'first' | 'last';
+  /**
+   * Collation of the query, like `{ locale: 'en', strength: 2 }` for case insensitive string order.
+   * MongoDB applies a single collation to a query, so the sort options must not specify different ones.
+   */
+  collation?: CollationDocument;
 }
 
 export interface Selector { [fieldName: string]: any; }
 
-export interface MongoEntityConnectionOptions<Entity> {
-  sortOptions: { [fieldName: string]: 1 | -1 };
+/**
+ * Options of `MongoEntityConnection`. The cursor codec defaults to `BSONCursorCodec`.
+ */
+export interface MongoEntityConnectionOptions<Entity> extends CursorOptions, PageSizeOptions {
+  /**
+   * Sort options in order of precedence. The object form `{ [fieldName]: 1 | -1 }` is sorted in its key order.
+   */
+  sortOptions: MongoEntityConnectionSortOption[] | { [fieldName: string]: 1 | -1 };
   repository: MongoRepository<Entity>;
   selector?: Selector;
+  /**
+   * Append `_id` to the sort options when they do not already cover a unique set of fields. Defaults to `true`.
+   */
+  tieBreaker?: boolean;
+  /**
+   * How `totalCount` is computed. It is only computed when resolved.
+   */
+  totalCount?: TotalCountOptions;
 }
 
 export class MongoEntityConnection<Entity extends Object> extends Connection<Entity, Entity> {
@@ -24,33 +70,44 @@ export class MongoEntityConnection<Entity extends Object> extends Connection<Ent
   protected afterSelector?: Selector;
   protected beforeSelector?: Selector;
   protected selector: Selector;
-
-  protected bson: any;
+  protected cursorCodec: CursorCodec;
+  protected collation?: CollationDocument;
+  protected totalCounter: TotalCounter;
 
   constructor(args: ConnectionArguments, public options: MongoEntityConnectionOptions<Entity>) {
-    super(args);
-    this.bson = require('mongodb/lib/bulk/common').bson;
+    super(applyPageSizeOptions(validateConnectionArguments(args), options));
+    this.totalCounter = new TotalCounter(options.totalCount, {
+      count: limit => this.countDocuments(limit),
+      estimate: () => this.queryEstimatedCount(),
+    });
 
-    if (args.first && args.last) {
-      throw new Error('Argument "first" and "last" must not be included at the same time');
+    this.sortOptions = this.resolveSortOptions(options.sortOptions);
+    if (options.tieBreaker !== false) {
+      this.sortOptions = this.appendTieBreaker(this.sortOptions);
     }
-    this.sortOptions = Object.keys(options.sortOptions)
-      .map(fieldName => ({ fieldName, order: options.sortOptions[fieldName] }));
+    this.cursorCodec = createCursorCodec(
+      options,
+      createCursorFingerprint(
+        'MongoEntityConnection',
+        this.sortOptions.map(({ fieldName, order, nulls, collation }) => [
+          fieldName,
+          [order, ...(nulls ? [`NULLS ${nulls.toUpperCase()}`] : []), ...(collation ? [`COLLATE ${JSON.stringify(collation)}`] : [])].join(' '),
+        ] as [string, string]),
+        options.cursorScope,
+      ),
+      () => new BSONCursorCodec(),
+    );
 
-    if (typeof args.first !== 'number' && typeof args.last !== 'number') {
-      this.args = { ...args };
-    }
-
-    this.limit = args.first || args.last || undefined;
+    this.limit = this.args.first || this.args.last || undefined;
 
     const selectors: Selector[] = [];
     if (args.after) {
-      this.afterKey = this.explodeCursor(args.after);
+      this.afterKey = this.explodeCursor(args.after, 'after');
       this.afterSelector = this.keyToSelector(this.afterKey, 'after');
       selectors.push(this.afterSelector);
     }
     if (args.before) {
-      this.beforeKey = this.explodeCursor(args.before);
+      this.beforeKey = this.explodeCursor(args.before, 'before');
       this.beforeSelector = this.keyToSelector(this.beforeKey, 'before');
       selectors.push(this.beforeSelector);
     }
@@ -69,8 +126,104 @@ export class MongoEntityConnection<Entity extends Object> extends Connection<Ent
   public edges: Promise<Edge<MongoEntityConnection<Entity>>[]>;
 
   resolveCursor(item: Entity): string {
-    const key = this.sortOptions.map(({ fieldName }) => item[fieldName as keyof Entity]);
-    return this.bson.serialize(key).toString('base64');
+    const key = this.sortOptions.map(({ fieldName }) => this.getFieldValue(item, fieldName));
+    return this.cursorCodec.encode(key);
+  }
+
+  /**
+   * Normalize the sort options to an ordered list of document fields, and pick the collation of the query.
+   */
+  protected resolveSortOptions(
+    sortOptions: MongoEntityConnectionSortOption[] | { [fieldName: string]: 1 | -1 },
+  ): MongoEntityConnectionSortOption[] {
+    const list: MongoEntityConnectionSortOption[] = Array.isArray(sortOptions)
+      ? sortOptions
+      : Object.keys(sortOptions).map(fieldName => ({ fieldName, order: sortOptions[fieldName] }));
+
+    return list.map(({ fieldName, order, nulls, collation }) => {
+      if (order !== 1 && order !== -1) {
+        throw new InvalidArgumentsError(`Cannot sort by "${fieldName}" in unknown order "${order}"`, { fieldName, order });
+      }
+      if (nulls !== undefined && nulls !== 'first' && nulls !== 'last') {
+        throw new InvalidArgumentsError(
+          `Cannot sort by "${fieldName}" with unknown nulls position "${nulls}"`,
+          { fieldName, nulls },
+        );
+      }
+      if (collation) {
+        if (this.collation && JSON.stringify(this.collation) !== JSON.stringify(collation)) {
+          throw new Error('Sort options of MongoEntityConnection must not specify different collations');
+        }
+        this.collation = collation;
+      }
+      return { fieldName: this.resolveFieldName(fieldName), order, nulls, collation };
+    });
+  }
+
+  /**
+   * Map a property path of the entity to the path of its document field. Other field names are kept as they are.
+   */
+  protected resolveFieldName(fieldName: string): string {
+    const { metadata } = this.options.repository;
+    const column = metadata.findColumnWithPropertyPath(fieldName) || this.findColumn(fieldName);
+    return column ? column.databasePath : fieldName;
+  }
+
+  protected findColumn(fieldName: string): ColumnMetadata | undefined {
+    return this.options.repository.metadata.columns.find(column => column.databasePath === fieldName);
+  }
+
+  /**
+   * Read the value of a document field from the entity, following the column mapping of its metadata
+   * or the dots of the field name into embedded documents.
+   */
+  protected getFieldValue(item: Entity, fieldName: string): any {
+    const column = this.findColumn(fieldName);
+    if (column) {
+      return column.getEntityValue(item);
+    }
+    return getPathValue(item, fieldName);
+  }
+
+  /**
+   * Restore the type of a cursor key value decoded by a codec which does not preserve it,
+   * like the hex string of an `ObjectID` or the ISO string of a `Date` from `JSONCursorCodec`.
+   */
+  protected prepareKeyValue(fieldName: string, value: any): any {
+    const column = this.findColumn(fieldName);
+    if (!column || (typeof value !== 'string' && typeof value !== 'number')) {
+      return value;
+    }
+    if (column.isObjectId && typeof value === 'string') {
+      const { ObjectID } = require('bson');
+      return new ObjectID(value);
+    }
+    if (column.type === Date) {
+      return new Date(value);
+    }
+    return value;
+  }
+
+  /**
+   * Append `_id` to the sort options, in the order of the last sort option,
+   * unless the sort options already cover `_id` or the fields of a unique index.
+   */
+  protected appendTieBreaker(sortOptions: MongoEntityConnectionSortOption[]): MongoEntityConnectionSortOption[] {
+    const fieldNames = sortOptions.map(({ fieldName }) => fieldName);
+    const uniqueFieldSets = [
+      ['_id'],
+      ...this.options.repository.metadata.indices
+        .filter(index => index.isUnique && !index.isSparse && !index.where)
+        .map(index => index.columns.map(column => column.databaseName)),
+    ];
+    const covered = uniqueFieldSets.some(fields => (
+      fields.length > 0 && fields.every(field => fieldNames.indexOf(field) !== -1)
+    ));
+    if (covered) {
+      return sortOptions;
+    }
+    const order = sortOptions.length > 0 ? sortOptions[sortOptions.length - 1].order : 1;
+    return [...sortOptions, { fieldName: '_id', order }];
   }
 
   resolveNode(item: Entity): Entity {
@@ -79,36 +232,79 @@ export class MongoEntityConnection<Entity extends Object> extends Connection<Ent
 
   async resolveHasNextPage() {
     const { first, before } = this.args;
-    const { repository } = this.options;
 
     if (typeof first === 'number') {
-      const limitOrMore = await repository.count(this.selector, { limit: first + 1 });
-      return limitOrMore > first;
+      await this.getEdgeSources();
+      return this.hasExtraDocument;
     }
     if (typeof before === 'string') {
-      const afterBeforeSelector = this.keyToSelector(this.beforeKey!, 'after');
-      const oneOrZero = await repository.count(afterBeforeSelector, { limit: 1 });
-      return oneOrZero > 0;
+      return this.exists(this.keyToSelector(this.beforeKey!, 'after'));
     }
     return false;
   }
 
   async resolveHasPreviousPage() {
     const { last, after } = this.args;
-    const { repository } = this.options;
 
     if (typeof last === 'number') {
-      const limitOrMore = await repository.count(this.selector, { limit: last + 1 });
-      return limitOrMore > last;
+      await this.getEdgeSources();
+      return this.hasExtraDocument;
     }
     if (typeof after === 'string') {
-      const beforeAfterSelector = this.keyToSelector(this.afterKey!, 'before');
-      const oneOrZero = await repository.count(beforeAfterSelector, { limit: 1 });
-      return oneOrZero > 0;
+      return this.exists(this.keyToSelector(this.afterKey!, 'before'));
     }
     return false;
   }
 
+  /**
+   * Check whether any document matching the selector of the options matches the cursor selector, without counting them.
+   */
+  protected async exists(cursorSelector: Selector): Promise<boolean> {
+    const { repository, selector } = this.options;
+    const oneOrZero = await repository.count(
+      selector ? { $and: [selector, cursorSelector] } : cursorSelector,
+      this.getCountOptions({ limit: 1 }),
+    );
+    return oneOrZero > 0;
+  }
+
+  /**
+   * The number of nodes of the connection, ignoring the pagination arguments.
+   */
+  get totalCount(): Promise<TotalCount> {
+    return this.resolveTotalCount();
+  }
+
+  resolveTotalCount(): Promise<TotalCount> {
+    return this.totalCounter.resolve();
+  }
+
+  /**
+   * Count the documents matching the selector of the options, or up to `limit` documents.
+   */
+  protected countDocuments(limit?: number): Promise<number> {
+    const { repository, selector = {} } = this.options;
+    return repository.count(selector, this.getCountOptions(limit === undefined ? {} : { limit }));
+  }
+
+  /**
+   * Estimate the number of documents from the collection metadata, which only applies without a selector.
+   */
+  protected async queryEstimatedCount(): Promise<number | null> {
+    const { repository, selector = {} } = this.options;
+    if (Object.keys(selector).length > 0) {
+      return null;
+    }
+    // TypeORM types the connection of its query runner as a database, but it holds the client,
+    // and the typings of the collection predate `estimatedDocumentCount`
+    const { connection, queryRunner } = repository.manager;
+    const client = queryRunner.databaseConnection as unknown as MongoClient;
+    const collection = client
+      .db((connection.driver as MongoDriver).database)
+      .collection(repository.metadata.tableName) as Collection<any> & { estimatedDocumentCount(): Promise<number> };
+    return collection.estimatedDocumentCount();
+  }
+
   getEdgeSources(): Promise<Entity[]> {
     if (!this.queryPromise) {
       this.queryPromise = this.query();
@@ -117,56 +313,121 @@ export class MongoEntityConnection<Entity extends Object> extends Connection<Ent
   }
 
   async query(): Promise<Entity[]> {
+    const reverse = typeof this.args.last === 'number';
+    return this.receiveEdgeSources(await this.queryDocuments(this.selector, reverse, this.limit));
+  }
+
+  /**
+   * Load the documents matching the selector in the sort order, or in the reversed order,
+   * with one more document than the limit.
+   */
+  protected async queryDocuments(selector: Selector, reverse: boolean, limit?: number): Promise<Entity[]> {
     const { repository } = this.options;
 
-    const reverse = typeof this.args.last === 'number';
-    const appliedSortOrder = this.sortOptions.reduce((results, { fieldName, order }) => {
-      results[fieldName] = order * (reverse ? -1 : 1);
-      return results;
-    }, {} as any);
-
-    const docs = await repository
-      .find({
-        where: this.selector,
-        order: appliedSortOrder,
-        take: this.limit,
-      });
-
-    if (reverse) { docs.reverse(); }
-    return docs;
+    const sortStages = this.getSortStages(reverse);
+    if (sortStages.length === 1 && !this.collation) {
+      const cursor = repository.createEntityCursor(selector).sort(this.getSortSpec(reverse));
+      if (limit) {
+        cursor.limit(limit + 1);
+      }
+      return cursor.toArray();
+    }
+
+    const pipeline: object[] = [{ $match: selector }, ...sortStages];
+    if (limit) {
+      pipeline.push({ $limit: limit + 1 });
+    }
+    return repository.aggregateEntity(pipeline, { collation: this.collation } as any).toArray();
   }
 
-  protected queryPromise: Promise<Entity[]> | null = null;
+  /**
+   * Iterate every document after the `after` cursor in the sort order, loading `batchSize` documents per query,
+   * so that memory stays bounded on large collections. `first` and `last` are ignored, and `before` ends the iteration.
+   * Resume an interrupted iteration with the cursor of the last document it yielded.
+   */
+  async *iterate(options: ConnectionIterateOptions = {}): AsyncIterableIterator<Entity> {
+    const { batchSize = 100 } = options;
+    validateBatchSize(batchSize);
+    const after = options.after !== undefined ? options.after : this.args.after;
+    let afterSelector = after ? this.keyToSelector(this.explodeCursor(after, 'after'), 'after') : undefined;
 
-  protected explodeCursor(cursor: string): any[] {
-    const buffer = Buffer.from(cursor, 'base64');
-    return this.bson.deserialize(buffer);
-  }
-
-  protected keyToSelector(key: any, direction: 'after' | 'before') {
-    const eq = direction === 'after'
-      ? ['$gt', '$lt', '$gte', '$lte']
-      : ['$lt', '$gt', '$lte', '$gte'];
-    const { sortOptions } = this;
-    const $or: any = [];
-
-    for (let i = 0; i < sortOptions.length; i++) {
-      const selector: any = {};
-      for (let j = 0; j < i + 1; j++) {
-        const { fieldName, order } = sortOptions[j];
-        const value = key[j];
-
-        let equality: string;
-        if (i === j) {
-          equality = order === 1 ? eq[0] : eq[1];
-        } else {
-          equality = order === 1 ? eq[2] : eq[3];
-        }
+    while (true) {
+      const selectors: Selector[] = [];
+      if (afterSelector) { selectors.push(afterSelector); }
+      if (this.beforeSelector) { selectors.push(this.beforeSelector); }
+      if (this.options.selector) { selectors.push(this.options.selector); }
 
-        selector[fieldName] = { [equality]: value };
+      const docs = await this.queryDocuments(selectors.length > 0 ? { $and: selectors } : {}, false, batchSize);
+      for (const doc of docs.slice(0, batchSize)) {
+        yield doc;
       }
-      $or.push(selector);
+      // the extra document tells whether there is another batch
+      if (docs.length <= batchSize) {
+        return;
+      }
+      const last = docs[batchSize - 1];
+      const key = this.sortOptions.map(({ fieldName }) => this.getFieldValue(last, fieldName));
+      afterSelector = this.keyToSelector(key, 'after');
     }
-    return { $or };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<Entity> {
+    return this.iterate();
+  }
+
+  /**
+   * The sort specification of the sort options, reversed when paginating with `last`.
+   * It is a `Map` so that the fields keep their order even when they look like array indices.
+   */
+  protected getSortSpec(reverse = typeof this.args.last === 'number'): Map<string, number> {
+    return new Map(this.sortOptions.map(({ fieldName, order }) => [fieldName, order * (reverse ? -1 : 1)] as [string, number]));
+  }
+
+  /**
+   * Aggregation stages sorting the documents. Sort options placing null values differently from MongoDB
+   * are sorted by a field flagging null values first.
+   */
+  protected getSortStages(reversed = typeof this.args.last === 'number'): object[] {
+    const reverse = reversed ? -1 : 1;
+    const flags: Selector = {};
+    const sort = new Map<string, number>();
+    this.sortOptions.forEach(({ fieldName, order, nulls }, i) => {
+      if (nulls && nulls !== nativeNulls(order)) {
+        flags[`__nulls_${i}`] = { $cond: [{ $eq: [{ $ifNull: [`$${fieldName}`, null] }, null] }, 1, 0] };
+        sort.set(`__nulls_${i}`, (nulls === 'last' ? 1 : -1) * reverse);
+      }
+      sort.set(fieldName, order * reverse);
+    });
+    return Object.keys(flags).length > 0 ? [{ $addFields: flags }, { $sort: sort }] : [{ $sort: sort }];
+  }
+
+  protected getCountOptions(options: { limit?: number }): any {
+    return this.collation ? { ...options, collation: this.collation } : options;
+  }
+
+  /**
+   * Turn the documents loaded for the page, with the extra document, into the edge sources in the order of the connection.
+   */
+  protected receiveEdgeSources(docs: Entity[]): Entity[] {
+    if (trimExtraNode(docs, this.limit, typeof this.args.last === 'number')) {
+      this.hasExtraDocument = true;
+    }
+    return docs;
+  }
+
+
+  protected queryPromise: Promise<Entity[]> | null = null;
+  protected hasExtraDocument = false;
+
+  protected explodeCursor(cursor: string, argument: 'after' | 'before'): any[] {
+    return decodeCursor(this.cursorCodec, cursor, argument, this.sortOptions.length)
+      .map((value, i) => this.prepareKeyValue(this.sortOptions[i].fieldName, value));
+  }
+
+  /**
+   * Build the selector matching the documents after or before the key in the sort order.
+   */
+  protected keyToSelector(key: any[], direction: 'after' | 'before'): Selector {
+    return keyToMongoSelector(this.sortOptions, key, direction);
   }
 }
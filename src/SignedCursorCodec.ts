@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { CursorCodec } from './CursorCodec';
+import { CursorVerificationError } from './errors';
+
+
+export type CursorSecret = string | Buffer;
+
+export interface CursorSigningOptions {
+  /**
+   * Secret for signing new cursors. Cursors signed with it are also accepted.
+   */
+  secret: CursorSecret;
+  /**
+   * Additional secrets accepted when verifying cursors, such as the secrets being rotated out.
+   */
+  verificationSecrets?: CursorSecret[];
+  /**
+   * HMAC digest algorithm. Defaults to `sha256`.
+   */
+  algorithm?: string;
+}
+
+/**
+ * Appends an HMAC signature to the cursors of the wrapped codec
+ * and rejects cursors with a `CursorVerificationError` unless one of the secrets verifies them.
+ */
+export class SignedCursorCodec implements CursorCodec {
+
+  constructor(protected codec: CursorCodec, protected signingOptions: CursorSigningOptions) {}
+
+  encode(key: any[]): string {
+    const payload = this.codec.encode(key);
+    return `${payload}.${this.sign(payload, this.signingOptions.secret)}`;
+  }
+
+  decode(cursor: string): any[] {
+    const separatorIndex = cursor.lastIndexOf('.');
+    if (separatorIndex === -1) {
+      throw new CursorVerificationError('Cursor is not signed');
+    }
+    const payload = cursor.slice(0, separatorIndex);
+    const signature = Buffer.from(cursor.slice(separatorIndex + 1));
+
+    const { secret, verificationSecrets = [] } = this.signingOptions;
+    const verified = [secret, ...verificationSecrets].some(candidate => {
+      const expected = Buffer.from(this.sign(payload, candidate));
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    });
+    if (!verified) {
+      throw new CursorVerificationError('Cursor signature is invalid');
+    }
+    return this.codec.decode(payload);
+  }
+
+  protected sign(payload: string, secret: CursorSecret): string {
+    return createHmac(this.signingOptions.algorithm || 'sha256', secret)
+      .update(payload)
+      .digest('base64')
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * JSON serialization which preserves the types of the values commonly used as sort keys.
+ *
+ * `Date`, `bigint` and `Buffer` values are written as single-key tagged objects
+ * (`{ "$date": ... }`, `{ "$bigint": ... }`, `{ "$binary": ... }`) and revived to their original types,
+ * so a cursor key decodes to exactly what was read from the entity.
+ */
+export const TypedJSON = {
+
+  stringify(value: any): string {
+    return JSON.stringify(value, function (this: any, key: string) {
+      return encodeTypedValue(this[key]);
+    });
+  },
+
+  parse(text: string): any {
+    return JSON.parse(text, (_key, value) => decodeTypedValue(value));
+  },
+};
+
+function encodeTypedValue(value: any): any {
+  if (value instanceof Date) {
+    return { $date: value.getTime() };
+  }
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (Buffer.isBuffer(value)) {
+    return { $binary: value.toString('base64') };
+  }
+  return value;
+}
+
+function decodeTypedValue(value: any): any {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  const keys = Object.keys(value);
+  if (keys.length !== 1) {
+    return value;
+  }
+  switch (keys[0]) {
+    case '$date':
+      return new Date(value.$date);
+    case '$bigint':
+      return (global as any).BigInt(value.$bigint);
+    case '$binary':
+      return Buffer.from(value.$binary, 'base64');
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,155 @@
+import { ConnectionArguments } from '@girin/connection';
+
+import { InvalidArgumentsError, PageSizeLimitError } from './errors';
+
+
+/**
+ * Page size options shared by the connections.
+ */
+export interface PageSizeOptions {
+  /**
+   * Page size applied when neither `first` nor `last` is given.
+   * It is applied as `last` when only `before` is given, and as `first` otherwise.
+   */
+  defaultPageSize?: number;
+  /**
+   * Maximum value of `first` and `last`.
+   */
+  maxPageSize?: number;
+  /**
+   * What to do when `first` or `last` exceeds `maxPageSize`:
+   * `clamp` it to `maxPageSize` (default) or `throw` a `PageSizeLimitError`.
+   */
+  pageSizeLimitBehavior?: 'clamp' | 'throw';
+}
+
+/**
+ * Options of the `iterate` method of the connections.
+ */
+export interface ConnectionIterateOptions {
+  /**
+   * Number of nodes loaded per query. Defaults to `100`.
+   */
+  batchSize?: number;
+  /**
+   * Cursor to resume the iteration after, like the cursor of the last node yielded by an interrupted iteration.
+   * Defaults to the `after` argument of the connection.
+   */
+  after?: string | null;
+}
+
+
+/**
+ * Connection arguments with the arguments of `EntityConnection` beyond the Relay specification.
+ */
+export interface ExtendedConnectionArguments extends ConnectionArguments {
+  around?: string | null;
+  offset?: number | null;
+  page?: number | null;
+}
+
+/**
+ * Validate connection arguments, throwing `InvalidArgumentsError` for invalid ones.
+ * `first` and `last` may be used together with `around`, which excludes `after` and `before`.
+ * `offset` and `page` exclude each other, `last` and `around`.
+ */
+export function validateConnectionArguments<TArgs extends ExtendedConnectionArguments>(args: TArgs): TArgs {
+  for (const argument of ['first', 'last'] as ('first' | 'last')[]) {
+    const value = args[argument];
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      throw new InvalidArgumentsError(`Argument "${argument}" must be a positive integer`, { argument });
+    }
+  }
+  for (const argument of ['after', 'before', 'around'] as ('after' | 'before' | 'around')[]) {
+    const value = args[argument];
+    if (value !== null && value !== undefined && typeof value !== 'string') {
+      throw new InvalidArgumentsError(`Argument "${argument}" must be a string`, { argument });
+    }
+  }
+  for (const argument of ['offset', 'page'] as ('offset' | 'page')[]) {
+    const value = args[argument];
+    if (value === null || value === undefined) {
+      continue;
+    }
+    const minimum = argument === 'offset' ? 0 : 1;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < minimum) {
+      throw new InvalidArgumentsError(
+        `Argument "${argument}" must be a ${minimum === 0 ? 'non-negative' : 'positive'} integer`,
+        { argument },
+      );
+    }
+  }
+  if (typeof args.offset === 'number' && typeof args.page === 'number') {
+    throw new InvalidArgumentsError(
+      'Argument "offset" and "page" must not be included at the same time',
+      { argument: 'page' },
+    );
+  }
+  if ((typeof args.offset === 'number' || typeof args.page === 'number')
+    && (typeof args.last === 'number' || typeof args.around === 'string')) {
+    throw new InvalidArgumentsError(
+      'Argument "offset" and "page" must not be included with "last" or "around"',
+      { argument: typeof args.offset === 'number' ? 'offset' : 'page' },
+    );
+  }
+  if (typeof args.around === 'string') {
+    if (typeof args.after === 'string' || typeof args.before === 'string') {
+      throw new InvalidArgumentsError(
+        'Argument "around" must not be included with "after" or "before"',
+        { argument: 'around' },
+      );
+    }
+    return args;
+  }
+  if (typeof args.first === 'number' && typeof args.last === 'number') {
+    throw new InvalidArgumentsError(
+      'Argument "first" and "last" must not be included at the same time',
+      { argument: 'last' },
+    );
+  }
+  return args;
+}
+
+/**
+ * Apply the default and maximum page size to validated connection arguments.
+ */
+export function applyPageSizeOptions<TArgs extends ConnectionArguments>(args: TArgs, options: PageSizeOptions): TArgs {
+  const { defaultPageSize, maxPageSize, pageSizeLimitBehavior = 'clamp' } = options;
+  const applied = { ...args };
+
+  if (typeof applied.first !== 'number' && typeof applied.last !== 'number' && defaultPageSize) {
+    if (typeof applied.before === 'string' && typeof applied.after !== 'string') {
+      applied.last = defaultPageSize;
+    } else {
+      applied.first = defaultPageSize;
+    }
+  }
+  if (maxPageSize) {
+    for (const argument of ['first', 'last'] as ('first' | 'last')[]) {
+      const value = applied[argument];
+      if (typeof value !== 'number' || value <= maxPageSize) {
+        continue;
+      }
+      if (pageSizeLimitBehavior === 'throw') {
+        throw new PageSizeLimitError(
+          `Argument "${argument}" must not exceed ${maxPageSize}`,
+          { argument, maxPageSize, requested: value },
+        );
+      }
+      applied[argument] = maxPageSize;
+    }
+  }
+  return applied;
+}
+
+/**
+ * Validate the batch size of an iteration, throwing `InvalidArgumentsError` unless it is a positive integer.
+ */
+export function validateBatchSize(batchSize: number) {
+  if (typeof batchSize !== 'number' || !Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new InvalidArgumentsError('Option "batchSize" must be a positive integer', { batchSize });
+  }
+}
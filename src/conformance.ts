@@ -0,0 +1,196 @@
+import { Connection, ConnectionArguments } from '@girin/connection';
+
+import { InvalidArgumentsError, InvalidCursorError } from './errors';
+
+
+/**
+ * Options of `checkConnectionConformance`.
+ */
+export interface ConnectionConformanceOptions<TNode> {
+  /**
+   * Create the connection under test with the given arguments, over the seeded dataset.
+   * Check filtered pagination by passing a factory of filtered connections with the identities of the filtered nodes.
+   */
+  createConnection(args: ConnectionArguments): Connection<TNode, any>;
+  /**
+   * Identities of every node of the seeded dataset, in the order of the connection.
+   */
+  expected: string[];
+  /**
+   * Identity of a node, like its primary key or slug.
+   */
+  identify(node: TNode): string;
+  /**
+   * Page sizes of the forward, backward and bounded pages. Defaults to `1`, `3` and the size of the dataset.
+   */
+  pageSizes?: number[];
+  /**
+   * Number of random walks over page boundaries. Defaults to `10`.
+   */
+  randomWalks?: number;
+  /**
+   * Seed of the random walks, so a failing walk can be repeated. Defaults to `1`.
+   */
+  seed?: number;
+}
+
+/**
+ * Thrown by `checkConnectionConformance` when a connection does not conform to the specification.
+ */
+export class ConformanceError extends Error {
+  constructor(message: string, public readonly args: ConnectionArguments) {
+    super(`${message} with arguments ${JSON.stringify(args)}`);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Check a connection against the Relay Cursor Connections specification, rejecting with a `ConformanceError`:
+ * edges, cursors and page info of forward, backward and bounded pages, random walks over page boundaries
+ * following the cursors of the pages, and errors for invalid arguments.
+ * It is independent of any test framework: await it in a test.
+ */
+export async function checkConnectionConformance<TNode>(options: ConnectionConformanceOptions<TNode>): Promise<void> {
+  const { createConnection, expected, identify, randomWalks = 10, seed = 1 } = options;
+  const count = expected.length;
+  const pageSizes = options.pageSizes || [1, 3, Math.max(count, 1)];
+
+  const all = createConnection({});
+  const allEdges = await all.edges;
+  const allNodes: TNode[] = await Promise.all(allEdges.map(edge => edge.node));
+  assertEqual(allNodes.map(identify), expected, 'Nodes do not match the dataset', {});
+  const cursors: string[] = await Promise.all(allEdges.map(edge => edge.cursor));
+  assertEqual(new Set(cursors).size, count, 'Cursors are not unique', {});
+  await checkPage(createConnection, identify, expected, cursors, {});
+
+  for (const size of pageSizes) {
+    for (let start = 0; start < count; start += size) {
+      await checkPage(createConnection, identify, expected, cursors, start === 0
+        ? { first: size }
+        : { first: size, after: cursors[start - 1] },
+      );
+    }
+    for (let end = count; end > 0; end -= size) {
+      await checkPage(createConnection, identify, expected, cursors, end === count
+        ? { last: size }
+        : { last: size, before: cursors[end] },
+      );
+    }
+  }
+
+  if (count >= 2) {
+    const windows = [[0, count - 1], [Math.floor(count / 3), Math.floor(count * 2 / 3)]];
+    for (const [after, before] of windows) {
+      const bounds = { after: cursors[after], before: cursors[before] };
+      await checkPage(createConnection, identify, expected, cursors, bounds);
+      for (const size of pageSizes) {
+        await checkPage(createConnection, identify, expected, cursors, { first: size, ...bounds });
+        await checkPage(createConnection, identify, expected, cursors, { last: size, ...bounds });
+      }
+    }
+  }
+
+  const random = createRandom(seed);
+  for (let walk = 0; walk < randomWalks && count > 0; walk++) {
+    const size = 1 + Math.floor(random() * Math.min(count, 5));
+    const position = Math.floor(random() * count);
+    let args: ConnectionArguments = random() < 0.5
+      ? (position > 0 ? { first: size, after: cursors[position - 1] } : { first: size })
+      : (position < count - 1 ? { last: size, before: cursors[position + 1] } : { last: size });
+
+    for (let step = 0; step < 8; step++) {
+      const edges = await checkPage(createConnection, identify, expected, cursors, args);
+      if (edges.length === 0) {
+        break;
+      }
+      // follow the cursors of the page rather than the cursors of the whole dataset
+      const forward = random() < 0.5;
+      const nextSize = 1 + Math.floor(random() * Math.min(count, 5));
+      args = forward
+        ? { first: nextSize, after: await edges[edges.length - 1].cursor }
+        : { last: nextSize, before: await edges[0].cursor };
+    }
+  }
+
+  await assertRejects(createConnection, { first: -1 }, InvalidArgumentsError);
+  await assertRejects(createConnection, { first: 1, last: 1 }, InvalidArgumentsError);
+  await assertRejects(createConnection, { after: 'invalid' }, InvalidCursorError);
+  await assertRejects(createConnection, { before: 'invalid' }, InvalidCursorError);
+}
+
+/**
+ * Check the edges and page info of a connection against the expected window of the dataset.
+ * `hasPreviousPage` tells whether any node precedes `after` when paginating forward,
+ * and `hasNextPage` whether any node follows `before` when paginating backward.
+ */
+async function checkPage<TNode>(
+  createConnection: (args: ConnectionArguments) => Connection<TNode, any>,
+  identify: (node: TNode) => string,
+  expected: string[],
+  cursors: string[],
+  args: ConnectionArguments,
+) {
+  const { first, last, after, before } = args;
+  const afterIndex = after ? cursors.indexOf(after) : -1;
+  const beforeIndex = before ? cursors.indexOf(before) : expected.length;
+  const lower = afterIndex + 1;
+  const upper = Math.max(beforeIndex, lower);
+
+  let start = lower;
+  let end = upper;
+  if (typeof first === 'number') { end = Math.min(lower + first, upper); }
+  if (typeof last === 'number') { start = Math.max(upper - last, lower); }
+
+  const connection = createConnection(args);
+  const edges = await connection.edges;
+  const nodes: TNode[] = await Promise.all(edges.map(edge => edge.node));
+  assertEqual(nodes.map(identify), expected.slice(start, end), 'Nodes do not match', args);
+  assertEqual(await Promise.all(edges.map(edge => edge.cursor)), cursors.slice(start, end), 'Cursors do not match', args);
+
+  const hasPreviousPage = typeof last === 'number' ? start > lower : afterIndex > 0;
+  const hasNextPage = typeof first === 'number' ? end < upper : before !== undefined && before !== null && beforeIndex < expected.length - 1;
+  assertEqual(await connection.pageInfo.hasPreviousPage, hasPreviousPage, 'hasPreviousPage does not match', args);
+  assertEqual(await connection.pageInfo.hasNextPage, hasNextPage, 'hasNextPage does not match', args);
+  return edges;
+}
+
+function assertEqual(actual: any, expected: any, message: string, args: ConnectionArguments) {
+  const actualJSON = JSON.stringify(actual);
+  const expectedJSON = JSON.stringify(expected);
+  if (actualJSON !== expectedJSON) {
+    throw new ConformanceError(`${message}: expected ${expectedJSON} but received ${actualJSON}`, args);
+  }
+}
+
+/**
+ * Assert the connection throws the error when created or when its edges are resolved.
+ */
+async function assertRejects(
+  createConnection: (args: ConnectionArguments) => Connection<any, any>,
+  args: ConnectionArguments,
+  errorClass: Function,
+) {
+  try {
+    await createConnection(args).edges;
+  } catch (e) {
+    if (e instanceof errorClass) {
+      return;
+    }
+    throw new ConformanceError(`Expected ${errorClass.name} but ${e && e.name} was thrown`, args);
+  }
+  throw new ConformanceError(`Expected ${errorClass.name} to be thrown`, args);
+}
+
+/**
+ * Seeded pseudo random number generator (mulberry32) of numbers in `[0, 1)`.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
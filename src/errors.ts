@@ -0,0 +1,65 @@
+export interface ConnectionErrorExtensions {
+  code: string;
+  [key: string]: any;
+}
+
+/**
+ * Base class of the errors thrown for invalid connection arguments.
+ * `code` and `extensions` can be exposed as GraphQL error extensions.
+ */
+export class ConnectionError extends Error {
+
+  readonly extensions: ConnectionErrorExtensions;
+
+  constructor(public readonly code: string, message: string, extensions: { [key: string]: any } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.extensions = { ...extensions, code };
+  }
+}
+
+/**
+ * Thrown when a cursor argument cannot be decoded.
+ */
+export class InvalidCursorError extends ConnectionError {
+  constructor(message = 'Cursor is invalid', extensions: { [key: string]: any } = {}) {
+    super('INVALID_CURSOR', message, { reason: 'MALFORMED', ...extensions });
+  }
+}
+
+/**
+ * Thrown when a cursor fails integrity verification, meaning it was not issued by this server
+ * or was modified by the client.
+ */
+export class CursorVerificationError extends InvalidCursorError {
+  constructor(message = 'Cursor verification failed') {
+    super(message, { reason: 'VERIFICATION_FAILED' });
+  }
+}
+
+/**
+ * Thrown when a cursor was issued by a connection with a different sort order, scope or type.
+ */
+export class CursorMismatchError extends InvalidCursorError {
+  constructor(message = 'Cursor does not match the connection') {
+    super(message, { reason: 'MISMATCH' });
+  }
+}
+
+/**
+ * Thrown when connection arguments are invalid or used together in an unsupported way.
+ */
+export class InvalidArgumentsError extends ConnectionError {
+  constructor(message: string, extensions: { [key: string]: any } = {}) {
+    super('INVALID_ARGUMENTS', message, extensions);
+  }
+}
+
+/**
+ * Thrown when a requested page size exceeds the maximum page size of the connection.
+ */
+export class PageSizeLimitError extends ConnectionError {
+  constructor(message: string, extensions: { [key: string]: any } = {}) {
+    super('PAGE_SIZE_LIMIT_EXCEEDED', message, extensions);
+  }
+}
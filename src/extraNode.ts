@@ -0,0 +1,16 @@
+/**
+ * Turn the nodes loaded for a page into the nodes of the page in the order of the connection.
+ * Connections load one more node than the limit, in the reversed order for `last`,
+ * so that the extra node tells whether there are more nodes without another query.
+ * Remove it, reverse the nodes when they were loaded in the reversed order, and return whether there was an extra node.
+ */
+export function trimExtraNode(nodes: any[], limit: number | undefined, reverse: boolean): boolean {
+  const hasExtraNode = !!limit && nodes.length > limit;
+  if (hasExtraNode) {
+    nodes.splice(limit!);
+  }
+  if (reverse) {
+    nodes.reverse();
+  }
+  return hasExtraNode;
+}
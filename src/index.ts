@@ -1,2 +1,16 @@
+export * from './ArrayConnection';
+export * from './BatchedEntityConnection';
+export * from './BatchedMongoEntityConnection';
+export * from './conformance';
+export * from './CursorCodec';
+export * from './EncryptedCursorCodec';
 export * from './EntityConnection';
+export * from './errors';
+export * from './FingerprintedCursorCodec';
+export * from './keyset';
+export * from './MergedConnection';
+export * from './MongoAggregationConnection';
 export * from './MongoEntityConnection';
+export * from './SignedCursorCodec';
+export * from './totalCount';
+export * from './TypedJSON';
@@ -0,0 +1,89 @@
+import { EntityConnectionSortOption } from './EntityConnection';
+import { InvalidArgumentsError } from './errors';
+import { CursorFingerprint, createCursorFingerprint } from './FingerprintedCursorCodec';
+
+
+/**
+ * Direction and position of NULL values of a sort key.
+ */
+export interface KeysetOrder {
+  order: 'ASC' | 'DESC';
+  /**
+   * Position of NULL values in the sort order. Defaults to `last`.
+   */
+  nulls?: 'first' | 'last';
+}
+
+/**
+ * Throw `InvalidArgumentsError` for a sort option with an unknown order or nulls position.
+ */
+export function validateSortOption({ sort, order, nulls }: EntityConnectionSortOption) {
+  if (order !== 'ASC' && order !== 'DESC') {
+    throw new InvalidArgumentsError(`Cannot sort by "${sort}" in unknown order "${order}"`, { sort, order });
+  }
+  if (nulls !== undefined && nulls !== 'first' && nulls !== 'last') {
+    throw new InvalidArgumentsError(`Cannot sort by "${sort}" with unknown nulls position "${nulls}"`, { sort, nulls });
+  }
+}
+
+/**
+ * Compute the cursor fingerprint of the resolved sort options of an entity connection,
+ * shared by `EntityConnection` and `ArrayConnection` so that their cursors are interchangeable.
+ */
+export function createEntityCursorFingerprint(sortOptions: EntityConnectionSortOption[], scope?: string): CursorFingerprint {
+  return createCursorFingerprint(
+    'EntityConnection',
+    sortOptions.map(({ sort, order, nulls, expression }) => [
+      expression ? `${sort} (${expression})` : sort,
+      nulls ? `${order} NULLS ${nulls.toUpperCase()}` : order,
+    ] as [string, string]),
+    scope,
+  );
+}
+
+/**
+ * Read the value at a property path of an object, following the dots into embedded objects,
+ * like the sort key of a node at `author.name`. Resolves `undefined` when a part of the path is missing.
+ */
+export function getPathValue(object: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), object);
+}
+
+/**
+ * Compare two sort values of the same type in ascending order.
+ * Dates are compared by time and buffers by bytes. Strings are compared by UTF-16 code units,
+ * which may differ from the collation of a database.
+ */
+export function compareSortValues(a: any, b: any): number {
+  if (a instanceof Date && b instanceof Date) {
+    return compareSortValues(a.getTime(), b.getTime());
+  }
+  if (Buffer.isBuffer(a) && Buffer.isBuffer(b)) {
+    return Buffer.compare(a, b);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two keys in the sort order, the way the keyset predicates of `EntityConnection` do:
+ * by the first sort value which differs, placing NULL values first or last regardless of the direction.
+ * A key is after another when the result is positive.
+ */
+export function compareKeys(orders: KeysetOrder[], a: any[], b: any[]): number {
+  for (let i = 0; i < orders.length; i++) {
+    const { order, nulls = 'last' } = orders[i];
+    const aIsNull = a[i] === null || a[i] === undefined;
+    const bIsNull = b[i] === null || b[i] === undefined;
+    if (aIsNull && bIsNull) {
+      continue;
+    }
+    if (aIsNull || bIsNull) {
+      return (aIsNull ? 1 : -1) * (nulls === 'last' ? 1 : -1);
+    }
+    const comparison = compareSortValues(a[i], b[i]);
+    if (comparison !== 0) {
+      return order === 'ASC' ? comparison : -comparison;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,48 @@
+import { MongoEntityConnectionSortOption, Selector } from './MongoEntityConnection';
+
+
+/**
+ * Position of null and missing values in the MongoDB sort order, which sorts them before any other value.
+ */
+export function nativeNulls(order: 1 | -1): 'first' | 'last' {
+  return order === 1 ? 'first' : 'last';
+}
+
+/**
+ * Build the selector matching the documents after or before the key in the sort order:
+ * documents equal to the key on the first `i` fields and after or before it on the next one, for any `i`.
+ * Null and missing values are compared in the position given by the sort option, or in the MongoDB order.
+ */
+export function keyToMongoSelector(
+  sortOptions: MongoEntityConnectionSortOption[],
+  key: any[],
+  direction: 'after' | 'before',
+): Selector {
+  const equalities: Selector[] = [];
+  const $or: Selector[] = [];
+
+  for (let i = 0; i < sortOptions.length; i++) {
+    const { fieldName, order, nulls = nativeNulls(order) } = sortOptions[i];
+    const value = key[i];
+    const operator = (order === 1) === (direction === 'after') ? '$gt' : '$lt';
+    const nullsFollow = nulls === (direction === 'after' ? 'last' : 'first');
+
+    if (value === null || value === undefined) {
+      // nothing follows null values when they are placed at the end in this direction
+      if (!nullsFollow) {
+        $or.push({ $and: [...equalities, { [fieldName]: { $ne: null } }] });
+      }
+      equalities.push({ [fieldName]: null });
+    } else {
+      const comparison: Selector = nullsFollow
+        ? { $or: [{ [fieldName]: { [operator]: value } }, { [fieldName]: null }] }
+        : { [fieldName]: { [operator]: value } };
+      $or.push(equalities.length > 0 ? { $and: [...equalities, comparison] } : comparison);
+      equalities.push({ [fieldName]: value });
+    }
+  }
+  if ($or.length === 0) {
+    return { _id: { $in: [] } };
+  }
+  return { $or };
+}
@@ -0,0 +1,45 @@
+import { Connection } from 'typeorm';
+
+
+const supportCache = new WeakMap<Connection, Promise<boolean>>();
+
+/**
+ * Check whether the database of the connection compares row values like `(a, b) > (1, 2)`
+ * in a way its indices can be used for: PostgreSQL, MySQL 8 and SQLite 3.15 or later.
+ * The result is cached for each connection.
+ */
+export function supportsRowValueComparison(connection: Connection): Promise<boolean> {
+  let support = supportCache.get(connection);
+  if (!support) {
+    support = detectRowValueComparison(connection).catch(() => false);
+    supportCache.set(connection, support);
+  }
+  return support;
+}
+
+async function detectRowValueComparison(connection: Connection): Promise<boolean> {
+  switch (connection.options.type) {
+    case 'postgres':
+      return true;
+    case 'mysql': {
+      const [{ version }] = await connection.query('SELECT VERSION() AS version');
+      return !/mariadb/i.test(version) && compareVersions(version, [8, 0, 0]) >= 0;
+    }
+    case 'sqlite': {
+      const [{ version }] = await connection.query('SELECT sqlite_version() AS version');
+      return compareVersions(version, [3, 15, 0]) >= 0;
+    }
+    default:
+      return false;
+  }
+}
+
+function compareVersions(version: string, minimum: number[]): number {
+  const parts = version.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < minimum.length; i++) {
+    if ((parts[i] || 0) !== minimum[i]) {
+      return (parts[i] || 0) - minimum[i];
+    }
+  }
+  return 0;
+}
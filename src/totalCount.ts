@@ -0,0 +1,92 @@
+/**
+ * How the total count of a connection is computed.
+ *
+ * - `exact`: counts every node.
+ * - `capped`: counts up to `cap` nodes, reporting an inexact count of `cap` when there are more.
+ * - `estimated`: uses the statistics of the database when available, and counts every node otherwise.
+ */
+export type TotalCountMode = 'exact' | 'capped' | 'estimated';
+
+export interface TotalCountOptions {
+  /**
+   * Defaults to `exact`.
+   */
+  mode?: TotalCountMode;
+  /**
+   * Maximum number of nodes counted in `capped` mode.
+   */
+  cap?: number;
+}
+
+export interface TotalCount {
+  count: number;
+  /**
+   * `false` when `count` is an estimate or a cap, to be displayed like "1,000+" or "about 1,000".
+   */
+  exact: boolean;
+}
+
+/**
+ * Validate total count options, which are given by the developer rather than the client.
+ */
+export function validateTotalCountOptions(options: TotalCountOptions = {}) {
+  if (options.mode === 'capped' && !(typeof options.cap === 'number' && options.cap > 0)) {
+    throw new Error('Option "totalCount.cap" must be a positive number in capped mode');
+  }
+}
+
+/**
+ * Queries of a connection computing its total count.
+ */
+export interface TotalCountQueries {
+  /**
+   * Count the nodes, or up to `limit` nodes when given.
+   */
+  count(limit?: number): Promise<number>;
+  /**
+   * Estimate the number of nodes, resolving `null` when there is no estimate, so that they are counted instead.
+   */
+  estimate?(): Promise<number | null>;
+}
+
+/**
+ * Total count of a connection, computed in the mode of the options when it is first resolved.
+ */
+export class TotalCounter {
+
+  protected promise: Promise<TotalCount> | null = null;
+
+  constructor(public options: TotalCountOptions = {}, protected queries: TotalCountQueries) {
+    validateTotalCountOptions(options);
+  }
+
+  resolve(): Promise<TotalCount> {
+    if (!this.promise) {
+      this.promise = this.query();
+    }
+    return this.promise;
+  }
+
+  protected query(): Promise<TotalCount> {
+    return countInMode(this.options, this.queries);
+  }
+}
+
+/**
+ * Count nodes with the queries in the mode of the options: up to the cap, estimated, or exactly.
+ */
+export async function countInMode(options: TotalCountOptions, queries: TotalCountQueries): Promise<TotalCount> {
+  const { mode = 'exact', cap } = options;
+
+  if (mode === 'capped') {
+    const count = await queries.count(cap! + 1);
+    return count > cap! ? { count: cap!, exact: false } : { count, exact: true };
+  }
+  if (mode === 'estimated' && queries.estimate) {
+    const estimate = await queries.estimate();
+    if (estimate !== null) {
+      return { count: estimate, exact: false };
+    }
+  }
+  return { count: await queries.count(), exact: true };
+}
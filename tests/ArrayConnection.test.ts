@@ -0,0 +1,120 @@
+import 'reflect-metadata';
+import { Connection, Column, Entity, PrimaryColumn, Generated } from 'typeorm';
+
+import { createTestingConnections, closeTestingConnections, reloadTestingDatabases } from './testenv';
+import {
+  ArrayConnection,
+  CursorMismatchError,
+  EntityConnection,
+  EntityConnectionSortOption,
+  InvalidArgumentsError,
+  checkConnectionConformance,
+} from '../src';
+
+
+@Entity('ArrayConnection-test')
+class Post {
+
+  @PrimaryColumn('integer')
+  @Generated()
+  id: number;
+
+  @Column()
+  slug: string;
+
+  @Column()
+  createdAt: Date;
+
+  @Column({ type: 'varchar', nullable: true })
+  editor: string | null;
+}
+
+function createPosts() {
+  const posts: Post[] = [];
+  for (let i = 1; i <= 30; i++) {
+    const post = new Post();
+    post.id = i;
+    post.slug = `post${i}`;
+    post.createdAt = new Date(1990 + i % 7, 5, 5);
+    post.editor = i % 3 ? `editor${i % 4}` : null;
+    posts.push(post);
+  }
+  return posts;
+}
+
+describe('array connection', () => {
+
+  let connections: Connection[];
+
+  beforeAll(async () => {
+    connections = await createTestingConnections({
+      enabledDrivers: [
+        'mysql',
+        'mariadb',
+        'sqlite',
+        'postgres'
+      ],
+      entities: [Post],
+    });
+  });
+  beforeEach(() => reloadTestingDatabases(connections));
+  afterAll(() => closeTestingConnections(connections));
+
+  it('conforms to the connection specification', async () => {
+    const posts = createPosts();
+    const sortOptions: EntityConnectionSortOption[] = [
+      { sort: 'editor', order: 'DESC', nulls: 'first' },
+      { sort: 'createdAt', order: 'ASC' },
+    ];
+    const expected = [...posts]
+      .sort((a, b) => (
+        (a.editor === null ? -1 : 0) - (b.editor === null ? -1 : 0)
+        || (b.editor || '').localeCompare(a.editor || '')
+        || a.createdAt.getTime() - b.createdAt.getTime()
+        || a.id - b.id
+      ))
+      .map(post => post.slug);
+
+    await checkConnectionConformance({
+      createConnection: args => new ArrayConnection(args, sortOptions, posts, { tieBreaker: ['id'] }),
+      expected,
+      identify: (post: Post) => post.slug,
+    });
+
+    expect(() => new ArrayConnection({}, [{ sort: 'slug', order: 'UP' as any }], posts))
+      .toThrowError(InvalidArgumentsError);
+    const [edge] = new ArrayConnection({ first: 1 }, sortOptions, posts).edges;
+    expect(() => new ArrayConnection({ after: edge.cursor }, sortOptions, posts, { tieBreaker: ['id'] }))
+      .toThrowError(CursorMismatchError);
+  });
+
+  it('issues the same cursors as an entity connection', () => Promise.all(
+    connections.map(async dbConn => {
+      const repository = dbConn.getRepository(Post);
+      await repository.save(createPosts());
+      const posts = await repository.find();
+
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'editor', order: 'DESC' }, { sort: 'createdAt', order: 'ASC' }];
+      const createEntityConnection = (args: {}) => new EntityConnection(args, sortOptions, repository.createQueryBuilder());
+      const createArrayConnection = (args: {}) => new ArrayConnection(
+        args,
+        [{ sort: 'editor', order: 'DESC', nulls: 'last' }, { sort: 'createdAt', order: 'ASC' }],
+        posts,
+        { tieBreaker: ['id'] },
+      );
+
+      const entityEdges = await createEntityConnection({ first: 12 }).edges;
+      const arrayEdges = createArrayConnection({ first: 12 }).edges;
+      expect(arrayEdges.map(edge => edge.node.slug)).toEqual(entityEdges.map(edge => edge.node.slug));
+      expect(arrayEdges.map(edge => edge.cursor)).toEqual(entityEdges.map(edge => edge.cursor));
+
+      const after = entityEdges[11].cursor;
+      const entityConnection = createEntityConnection({ first: 12, after });
+      const arrayConnection = createArrayConnection({ first: 12, after });
+      expect(arrayConnection.edges.map(edge => edge.node.slug))
+        .toEqual((await entityConnection.edges).map(edge => edge.node.slug));
+      expect(arrayConnection.pageInfo.hasNextPage).toBe(await entityConnection.pageInfo.hasNextPage);
+      expect(arrayConnection.pageInfo.hasPreviousPage).toBe(await entityConnection.pageInfo.hasPreviousPage);
+    }),
+  ));
+});
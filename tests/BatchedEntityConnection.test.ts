@@ -0,0 +1,166 @@
+import 'reflect-metadata';
+import { Connection, Column, Entity, PrimaryGeneratedColumn, ManyToOne } from 'typeorm';
+
+import { createTestingConnections, closeTestingConnections, reloadTestingDatabases } from './testenv';
+import { EntityConnectionSortOption, InvalidArgumentsError, createBatchedEntityConnections } from '../src';
+
+
+@Entity('BatchedEntityConnection-test-author')
+class Author {
+
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+}
+
+@Entity('BatchedEntityConnection-test-post')
+class Post {
+
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  slug: string;
+
+  @Column()
+  createdAt: Date;
+
+  @Column()
+  authorId: number;
+
+  @ManyToOne(() => Author)
+  author: Author;
+}
+
+
+async function loadPosts(connection: Connection) {
+  const authors: Author[] = [];
+  for (let i = 1; i <= 5; i++) {
+    const author = new Author();
+    author.name = `author${i}`;
+    authors.push(await connection.getRepository(Author).save(author));
+  }
+
+  const posts: Post[] = [];
+  for (let i = 1; i <= 50; i++) {
+    const post = new Post();
+    post.slug = `post${i}`;
+    post.createdAt = new Date(1990 + i, 5, 5);
+    post.authorId = authors[i % 5].id;
+    posts.push(post);
+  }
+  await connection.getRepository(Post).createQueryBuilder().insert().values(posts).execute();
+  return authors;
+}
+
+describe('batched entity connection', () => {
+
+  let connections: Connection[];
+
+  beforeAll(async () => {
+    connections = await createTestingConnections({
+      enabledDrivers: [
+        'mysql',
+        'mariadb',
+        'sqlite',
+        'postgres'
+      ],
+      entities: [Post, Author],
+    });
+  });
+  beforeEach(() => reloadTestingDatabases(connections));
+  afterAll(() => closeTestingConnections(connections));
+
+  const sortOptions: EntityConnectionSortOption[] = [{ sort: 'createdAt', order: 'DESC' }];
+
+  it('loads the pages of every parent with a single query', () => Promise.all(
+    connections.map(async dbConn => {
+      const authors = await loadPosts(dbConn);
+      const parentKeys = [...authors.map(author => author.id), 999];
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder('post');
+
+      const queryRunnerSpy = jest.spyOn(dbConn, 'createQueryRunner');
+      try {
+        const batch = createBatchedEntityConnections(parentKeys, { first: 3 }, sortOptions, queryBuilder, { parentKey: 'authorId' });
+        expect(batch).toHaveLength(6);
+
+        const pages = await Promise.all(batch.map(connection => connection.edges));
+        expect(pages.map(edges => edges.map(edge => edge.node.slug))).toEqual([
+          ['post50', 'post45', 'post40'],
+          ['post46', 'post41', 'post36'],
+          ['post47', 'post42', 'post37'],
+          ['post48', 'post43', 'post38'],
+          ['post49', 'post44', 'post39'],
+          [],
+        ]);
+        for (let i = 0; i < batch.length; i++) {
+          expect(await batch[i].pageInfo.hasNextPage).toBe(i < 5);
+          expect(await batch[i].pageInfo.hasPreviousPage).toBe(false);
+        }
+        expect(queryRunnerSpy).toHaveBeenCalledTimes(1);
+
+        // the page info of cursors is probed for every parent with a single query
+        const after = createBatchedEntityConnections(parentKeys, { first: 3, after: pages[1][0].cursor }, sortOptions, queryBuilder, { parentKey: 'authorId' });
+        await Promise.all(after.map(connection => connection.edges));
+        queryRunnerSpy.mockClear();
+        expect(await Promise.all(after.map(connection => connection.pageInfo.hasPreviousPage)))
+          .toEqual([true, false, true, true, true, false]);
+        expect(queryRunnerSpy).toHaveBeenCalledTimes(1);
+
+        const before = createBatchedEntityConnections(parentKeys, { last: 3, before: pages[1][0].cursor }, sortOptions, queryBuilder, { parentKey: 'authorId' });
+        await Promise.all(before.map(connection => connection.edges));
+        queryRunnerSpy.mockClear();
+        expect(await Promise.all(before.map(connection => connection.pageInfo.hasNextPage)))
+          .toEqual([true, true, true, true, true, false]);
+        expect(queryRunnerSpy).toHaveBeenCalledTimes(1);
+      } finally {
+        queryRunnerSpy.mockRestore();
+      }
+    }),
+  ));
+
+  it('paginates each parent like an entity connection', () => Promise.all(
+    connections.map(async dbConn => {
+      const authors = await loadPosts(dbConn);
+      const parentKeys = authors.map(author => author.id);
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder('post').where('post.slug != :slug', { slug: 'post50' });
+      const options = { parentKey: 'author' };
+
+      let batch = createBatchedEntityConnections(parentKeys, { last: 2 }, sortOptions, queryBuilder, options);
+      let pages = await Promise.all(batch.map(connection => connection.edges));
+      expect(pages.map(edges => edges.map(edge => edge.node.slug))).toEqual([
+        ['post10', 'post5'],
+        ['post6', 'post1'],
+        ['post7', 'post2'],
+        ['post8', 'post3'],
+        ['post9', 'post4'],
+      ]);
+      expect(await batch[0].pageInfo.hasPreviousPage).toBe(true);
+      expect(await batch[0].totalCount).toEqual({ count: 9, exact: true });
+      expect(await batch[1].totalCount).toEqual({ count: 10, exact: true });
+
+      batch = createBatchedEntityConnections(parentKeys, { first: 20, after: pages[0][0].cursor }, sortOptions, queryBuilder, options);
+      pages = await Promise.all(batch.map(connection => connection.edges));
+      expect(pages[0].map(edge => edge.node.slug)).toEqual(['post5']);
+      expect(pages[1].map(edge => edge.node.slug)).toEqual(['post6', 'post1']);
+      expect(await batch[0].pageInfo.hasPreviousPage).toBe(true);
+      expect(await batch[0].pageInfo.hasNextPage).toBe(false);
+
+      // a parent key given more than once, like by a DataLoader without cache, gets the same page each time
+      batch = createBatchedEntityConnections([parentKeys[0], parentKeys[0]], { last: 2 }, sortOptions, queryBuilder, options);
+      pages = await Promise.all(batch.map(connection => connection.edges));
+      expect(pages.map(edges => edges.map(edge => edge.node.slug))).toEqual([['post10', 'post5'], ['post10', 'post5']]);
+      expect(await Promise.all(batch.map(connection => connection.pageInfo.hasPreviousPage))).toEqual([true, true]);
+
+      expect(createBatchedEntityConnections([], { first: 3 }, sortOptions, queryBuilder, options)).toEqual([]);
+      expect(() => createBatchedEntityConnections(parentKeys, { first: 3, around: pages[0][0].cursor } as any, sortOptions, queryBuilder, options))
+        .toThrowError(InvalidArgumentsError);
+      expect(() => createBatchedEntityConnections(parentKeys, { first: 3, page: 2 } as any, sortOptions, queryBuilder, options))
+        .toThrowError('Argument "page" is not supported by batched connections');
+      expect(() => createBatchedEntityConnections(parentKeys, { first: 3 }, sortOptions, queryBuilder, { parentKey: 'unknown' }))
+        .toThrowError('Option "parentKey" must be the property path of a column or a relation with a single join column');
+    }),
+  ));
+});
@@ -0,0 +1,41 @@
+import { BSONCursorCodec, JSONCursorCodec, TypedJSONCursorCodec } from '../src';
+
+const { ObjectID } = require('mongodb');
+
+
+describe('CursorCodec', () => {
+
+  it('encodes keys as base64 by default', () => {
+    const codec = new JSONCursorCodec();
+    const cursor = codec.encode(['Post A', 1]);
+
+    expect(cursor).toBe(Buffer.from('["Post A",1]').toString('base64'));
+    expect(codec.decode(cursor)).toEqual(['Post A', 1]);
+  });
+
+  it('encodes keys as url-safe base64', () => {
+    const codec = new JSONCursorCodec({ encoding: 'base64url' });
+    const key = ['???>>>', '~~~'];
+    const cursor = codec.encode(key);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(codec.decode(cursor)).toEqual(key);
+  });
+
+  it('preserves dates with TypedJSONCursorCodec', () => {
+    const codec = new TypedJSONCursorCodec();
+    const key = [new Date('2018-03-02T00:00:00Z'), 4];
+
+    expect(codec.decode(codec.encode(key))).toEqual(key);
+    expect(new JSONCursorCodec().decode(new JSONCursorCodec().encode(key))).toEqual(['2018-03-02T00:00:00.000Z', 4]);
+  });
+
+  it('preserves object ids with BSONCursorCodec', () => {
+    const codec = new BSONCursorCodec({ encoding: 'base64url' });
+    const id = new ObjectID();
+    const [createdAt, decodedId] = codec.decode(codec.encode([new Date('2018-03-02T00:00:00Z'), id]));
+
+    expect(createdAt).toEqual(new Date('2018-03-02T00:00:00Z'));
+    expect(id.equals(decodedId)).toBe(true);
+  });
+});
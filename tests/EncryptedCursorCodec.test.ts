@@ -0,0 +1,42 @@
+import { CursorVerificationError, EncryptedCursorCodec, TypedJSONCursorCodec } from '../src';
+
+
+describe('EncryptedCursorCodec', () => {
+
+  const codec = new TypedJSONCursorCodec();
+  const key = ['someone@example.com', new Date('2018-03-02T00:00:00Z'), 1];
+
+  it('round-trips encrypted cursors without leaking sort values', () => {
+    const encrypted = new EncryptedCursorCodec(codec, { key: 'current' });
+    const cursor = encrypted.encode(key);
+
+    expect(Buffer.from(cursor, 'base64').toString()).not.toContain('someone@example.com');
+    expect(cursor).not.toContain(codec.encode(key));
+    expect(encrypted.decode(cursor)).toEqual(key);
+  });
+
+  it('produces stable cursors for the same key', () => {
+    const encrypted = new EncryptedCursorCodec(codec, { key: 'current' });
+
+    expect(encrypted.encode(key)).toBe(encrypted.encode(key));
+    expect(encrypted.encode(key)).not.toBe(encrypted.encode([...key.slice(0, 2), 2]));
+    expect(new EncryptedCursorCodec(codec, { key: 'other' }).encode(key)).not.toBe(encrypted.encode(key));
+  });
+
+  it('rejects modified cursors and cursors encrypted with unknown keys', () => {
+    const encrypted = new EncryptedCursorCodec(codec, { key: 'current' });
+    const cursor = encrypted.encode(key);
+    const modified = (cursor[20] === 'A' ? 'B' : 'A');
+
+    expect(() => encrypted.decode(cursor.slice(0, 20) + modified + cursor.slice(21))).toThrowError(CursorVerificationError);
+    expect(() => encrypted.decode('short')).toThrowError(CursorVerificationError);
+    expect(() => new EncryptedCursorCodec(codec, { key: 'other' }).decode(cursor)).toThrowError(CursorVerificationError);
+  });
+
+  it('decrypts cursors encrypted with rotated keys', () => {
+    const previous = new EncryptedCursorCodec(codec, { key: 'previous' });
+    const rotated = new EncryptedCursorCodec(codec, { key: 'current', decryptionKeys: ['previous'] });
+
+    expect(rotated.decode(previous.encode(key))).toEqual(key);
+  });
+});
@@ -1,11 +1,42 @@
 import 'reflect-metadata';
 import { ConnectionArguments } from '@girin/connection';
-import { Connection, Column, Entity, PrimaryColumn, Generated } from 'typeorm';
+import { Connection, Column, Entity, PrimaryColumn, Generated, ManyToOne, SelectQueryBuilder } from 'typeorm';
+import { RawSqlResultsToEntityTransformer } from 'typeorm/query-builder/transformer/RawSqlResultsToEntityTransformer';
 
 import { createTestingConnections, closeTestingConnections, reloadTestingDatabases } from './testenv';
-import { EntityConnection } from '../src';
+import {
+  ConformanceError,
+  CursorMismatchError,
+  CursorVerificationError,
+  EntityConnection,
+  EntityConnectionArguments,
+  EntityConnectionOptions,
+  EntityConnectionSortOption,
+  InvalidArgumentsError,
+  InvalidCursorError,
+  JSONCursorCodec,
+  PageSizeLimitError,
+  checkConnectionConformance,
+} from '../src';
 
 
+@Entity('EntityConnection-test-author')
+class Author {
+
+  @PrimaryColumn('integer')
+  @Generated()
+  id: number;
+
+  @Column()
+  name: string;
+}
+
+class PostStats {
+
+  @Column({ name: 'view_count' })
+  views: number;
+}
+
 @Entity('EntityConnection-test')
 class Post {
 
@@ -21,16 +52,36 @@ class Post {
 
   @Column()
   createdAt: Date;
+
+  @Column({ type: 'varchar', nullable: true })
+  editor: string | null;
+
+  @Column(() => PostStats)
+  stats: PostStats;
+
+  @ManyToOne(() => Author)
+  author: Author;
 }
 
 
-function loadPosts(connection: Connection) {
+async function loadPosts(connection: Connection) {
+  const authors: Author[] = [];
+  for (let i = 0; i < 5; i++) {
+    const author = new Author();
+    author.name = `author${(i * 3) % 5}`;
+    authors.push(await connection.getRepository(Author).save(author));
+  }
+
   const posts: Post[] = [];
   for (let i = 1; i <= 50; i++) {
     const post = new Post();
     post.category = i % 2 ? 'Foo' : 'Bar';
     post.slug = `post${i}`;
     post.createdAt = new Date(1990 + i, 5, 5);
+    post.editor = i % 3 ? `editor${i % 4}` : null;
+    post.stats = new PostStats();
+    post.stats.views = (i * 7) % 50;
+    post.author = authors[i % 5];
     posts.push(post);
   }
   return connection.getRepository(Post).createQueryBuilder().insert().values(posts).execute();
@@ -48,7 +99,7 @@ describe('index connection', () => {
         'sqlite',
         'postgres'
       ],
-      entities: [Post],
+      entities: [Post, Author],
     });
   });
   beforeEach(() => reloadTestingDatabases(connections));
@@ -77,6 +128,14 @@ describe('index connection', () => {
     );
   }
 
+  function queryPostsOrderedByCreatedAt(dbConn: Connection, args: ConnectionArguments) {
+    return new EntityConnection(
+      args,
+      [{ sort: 'createdAt', order: 'DESC' }, { sort: 'id', order: 'DESC' }],
+      dbConn.getRepository(Post).createQueryBuilder(),
+    );
+  }
+
   it('implements relay cursor connection spec', () => Promise.all(
     connections.map(async dbConn => {
       await loadPosts(dbConn);
@@ -267,4 +326,717 @@ describe('index connection', () => {
     }),
   ));
 
+  it('paginates with date sort keys', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      // post50 ~ 41
+      let connection = queryPostsOrderedByCreatedAt(dbConn, { first: 10 });
+      let edges = await connection.edges;
+      expect(edges).toHaveLength(10);
+      expect(edges[0].node.slug).toBe('post50');
+      expect(edges[9].node.slug).toBe('post41');
+
+      // query after 41 should be 40 ~ 31
+      connection = queryPostsOrderedByCreatedAt(dbConn, { first: 10, after: edges[9].cursor });
+      edges = await connection.edges;
+      expect(edges).toHaveLength(10);
+      expect(edges[0].node.slug).toBe('post40');
+      expect(edges[9].node.slug).toBe('post31');
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+      // last 2 before 31 should be 33 and 32
+      connection = queryPostsOrderedByCreatedAt(dbConn, { last: 2, before: edges[9].cursor });
+      edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post33', 'post32']);
+    }),
+  ));
+
+  it('encodes cursors with the given codec', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const cursorCodec = new JSONCursorCodec({ encoding: 'base64url' });
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder();
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'id', order: 'ASC' }];
+
+      let connection = new EntityConnection({ first: 2 }, sortOptions, queryBuilder, { cursorCodec });
+      let edges = await connection.edges;
+      expect(cursorCodec.decode(edges[1].cursor)).toEqual([expect.any(String), 2]);
+
+      connection = new EntityConnection({ first: 2, after: edges[1].cursor }, sortOptions, queryBuilder, { cursorCodec });
+      edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post3', 'post4']);
+    }),
+  ));
+
+  it('rejects tampered cursors when signing is enabled', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const options = { cursorSigning: { secret: 'secret' } };
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder().where('category = :category', { category: 'Foo' });
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'id', order: 'ASC' }];
+
+      const connection = new EntityConnection({ first: 2 }, sortOptions, queryBuilder, options);
+      const edges = await connection.edges;
+      const nextConnection = new EntityConnection({ first: 2, after: edges[1].cursor }, sortOptions, queryBuilder, options);
+      expect((await nextConnection.edges).map(edge => edge.node.slug)).toEqual(['post5', 'post7']);
+
+      const [, signature] = edges[1].cursor.split('.');
+      const tampered = `${new JSONCursorCodec().encode([1])}.${signature}`;
+      expect(() => new EntityConnection({ first: 2, after: tampered }, sortOptions, queryBuilder, options))
+        .toThrowError(CursorVerificationError);
+    }),
+  ));
+
+  it('paginates with encrypted cursors', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const options = { cursorEncryption: { key: 'key' } };
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder();
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'slug', order: 'ASC' }, { sort: 'id', order: 'ASC' }];
+
+      let connection = new EntityConnection({ first: 2 }, sortOptions, queryBuilder, options);
+      let edges = await connection.edges;
+      expect(Buffer.from(edges[1].cursor, 'base64').toString()).not.toContain('post10');
+
+      connection = new EntityConnection({ first: 2, after: edges[1].cursor }, sortOptions, queryBuilder, options);
+      edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post11', 'post12']);
+    }),
+  ));
+
+  it('rejects cursors issued for another sort order or scope', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder();
+      const connection = new EntityConnection(
+        { first: 2 },
+        [{ sort: 'slug', order: 'ASC' }, { sort: 'id', order: 'ASC' }],
+        queryBuilder,
+        { cursorScope: 'posts' },
+      );
+      const [, edge] = await connection.edges;
+
+      expect(() => new EntityConnection({ after: edge.cursor }, [{ sort: 'id', order: 'ASC' }], queryBuilder))
+        .toThrowError(CursorMismatchError);
+      expect(() => new EntityConnection(
+        { after: edge.cursor },
+        [{ sort: 'slug', order: 'ASC' }, { sort: 'id', order: 'ASC' }],
+        queryBuilder,
+        { cursorScope: 'drafts' },
+      )).toThrowError('Cursor was not issued for EntityConnection sorted by slug ASC, id ASC in scope "drafts"');
+
+      const next = new EntityConnection(
+        { first: 2, after: edge.cursor },
+        [{ sort: 'slug', order: 'ASC' }, { sort: 'id', order: 'ASC' }],
+        queryBuilder,
+        { cursorScope: 'posts' },
+      );
+      expect((await next.edges).map(e => e.node.slug)).toEqual(['post11', 'post12']);
+    }),
+  ));
+
+  it('throws typed errors for invalid arguments', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const invalidArgs: ConnectionArguments[] = [{ first: -1 }, { first: 0 }, { last: 1.5 }, { first: 2, last: 2 }];
+      for (const args of invalidArgs) {
+        expect(() => queryPostsOrderedById(dbConn, args)).toThrowError(InvalidArgumentsError);
+      }
+      try {
+        queryPostsOrderedById(dbConn, { last: 0 });
+        fail();
+      } catch (e) {
+        expect(e.code).toBe('INVALID_ARGUMENTS');
+        expect(e.extensions).toEqual({ code: 'INVALID_ARGUMENTS', argument: 'last' });
+        expect(e.message).toBe('Argument "last" must be a positive integer');
+      }
+
+      for (const cursor of ['not a cursor', Buffer.from('{"id":1}').toString('base64')]) {
+        expect(() => queryPostsOrderedById(dbConn, { before: cursor })).toThrowError(InvalidCursorError);
+      }
+      try {
+        queryPostsOrderedById(dbConn, { after: 'not a cursor' });
+        fail();
+      } catch (e) {
+        expect(e.code).toBe('INVALID_CURSOR');
+        expect(e.extensions).toEqual({ code: 'INVALID_CURSOR', reason: 'MALFORMED', argument: 'after' });
+      }
+      try {
+        queryPostsOrderedByCreatedAt(dbConn, { after: (await queryPostsOrderedById(dbConn, { first: 1 }).edges)[0].cursor });
+        fail();
+      } catch (e) {
+        expect(e).toBeInstanceOf(CursorMismatchError);
+        expect(e).toBeInstanceOf(InvalidCursorError);
+        expect(e.extensions).toEqual({ code: 'INVALID_CURSOR', reason: 'MISMATCH', argument: 'after' });
+      }
+    }),
+  ));
+
+  it('applies default and maximum page sizes', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder();
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'id', order: 'ASC' }];
+      const options = { defaultPageSize: 5, maxPageSize: 20 };
+
+      // default page size
+      let connection = new EntityConnection({}, sortOptions, queryBuilder, options);
+      let edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post1', 'post2', 'post3', 'post4', 'post5']);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(false);
+
+      // default page size applied backwards before a cursor
+      connection = new EntityConnection({ before: edges[4].cursor }, sortOptions, queryBuilder, { defaultPageSize: 2 });
+      edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post3', 'post4']);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+
+      // clamped to the maximum page size
+      connection = new EntityConnection({ first: 100000 }, sortOptions, queryBuilder, options);
+      expect(await connection.edges).toHaveLength(20);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+      connection = new EntityConnection({ last: 100000 }, sortOptions, queryBuilder, options);
+      edges = await connection.edges;
+      expect(edges).toHaveLength(20);
+      expect(edges[0].node.slug).toBe('post31');
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+
+      // rejected over the maximum page size
+      expect(() => new EntityConnection(
+        { first: 21 },
+        sortOptions,
+        queryBuilder,
+        { ...options, pageSizeLimitBehavior: 'throw' },
+      )).toThrowError(PageSizeLimitError);
+    }),
+  ));
+
+  it('resolves page info from the edge query', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryRunnerSpy = jest.spyOn(dbConn, 'createQueryRunner');
+      try {
+        let connection = queryPostsOrderedById(dbConn, { first: 10 });
+        expect(await connection.edges).toHaveLength(10);
+        expect(await connection.pageInfo.hasNextPage).toBe(true);
+        expect(await connection.pageInfo.hasPreviousPage).toBe(false);
+        expect(queryRunnerSpy).toHaveBeenCalledTimes(1);
+
+        connection = queryPostsOrderedById(dbConn, { last: 50 });
+        expect(await connection.edges).toHaveLength(50);
+        expect(await connection.pageInfo.hasPreviousPage).toBe(false);
+        expect(await connection.pageInfo.hasNextPage).toBe(false);
+        expect(queryRunnerSpy).toHaveBeenCalledTimes(2);
+      } finally {
+        queryRunnerSpy.mockRestore();
+      }
+    }),
+  ));
+
+  it('resolves total count of the base query', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder().where('category = :category', { category: 'Foo' });
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'id', order: 'ASC' }];
+      const first = await new EntityConnection({ first: 2 }, sortOptions, queryBuilder).edges;
+
+      let connection = new EntityConnection({ first: 2, after: first[1].cursor }, sortOptions, queryBuilder);
+      expect(await connection.totalCount).toEqual({ count: 25, exact: true });
+      expect(connection.totalCount).toBe(connection.totalCount);
+
+      connection = new EntityConnection({ first: 2 }, sortOptions, queryBuilder, { totalCount: { mode: 'capped', cap: 10 } });
+      expect(await connection.totalCount).toEqual({ count: 10, exact: false });
+
+      connection = new EntityConnection({ first: 2 }, sortOptions, queryBuilder, { totalCount: { mode: 'capped', cap: 25 } });
+      expect(await connection.totalCount).toEqual({ count: 25, exact: true });
+
+      connection = new EntityConnection({ first: 2 }, sortOptions, queryBuilder, { totalCount: { mode: 'estimated' } });
+      const { count, exact } = await connection.totalCount;
+      expect(count).toBeGreaterThan(0);
+      if (exact) {
+        expect(count).toBe(25);
+      }
+
+      expect(() => new EntityConnection({}, sortOptions, queryBuilder, { totalCount: { mode: 'capped' } }))
+        .toThrowError('Option "totalCount.cap" must be a positive number in capped mode');
+    }),
+  ));
+
+  it('appends primary columns to non-unique sort options', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder();
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'category', order: 'DESC' }];
+
+      const slugs: string[] = [];
+      let after: string | undefined;
+      for (let page = 0; page < 7; page++) {
+        const connection = new EntityConnection({ first: 8, after }, sortOptions, queryBuilder);
+        const edges = await connection.edges;
+        slugs.push(...edges.map(edge => edge.node.slug));
+        after = edges[edges.length - 1].cursor;
+        expect(await connection.pageInfo.hasNextPage).toBe(page < 6);
+      }
+      expect(slugs).toHaveLength(50);
+      expect(slugs.slice(0, 3)).toEqual(['post49', 'post47', 'post45']);
+      expect(slugs.slice(-3)).toEqual(['post6', 'post4', 'post2']);
+
+      const cursorCodec = new JSONCursorCodec();
+      let connection = new EntityConnection({ first: 1 }, sortOptions, queryBuilder, { cursorCodec });
+      expect(cursorCodec.decode((await connection.edges)[0].cursor)).toEqual([expect.any(String), 'Foo', 49]);
+
+      connection = new EntityConnection({ first: 1 }, sortOptions, queryBuilder, { cursorCodec, tieBreaker: false });
+      expect(cursorCodec.decode((await connection.edges)[0].cursor)).toEqual([expect.any(String), 'Foo']);
+    }),
+  ));
+
+  it('resolves sort options against entity metadata', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder('post');
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'stats.views', order: 'DESC' }];
+
+      let connection = new EntityConnection({ first: 3 }, sortOptions, queryBuilder);
+      let edges = await connection.edges;
+      expect(edges.map(edge => edge.node.stats.views)).toEqual([49, 48, 47]);
+
+      connection = new EntityConnection({ first: 3, after: edges[2].cursor }, sortOptions, queryBuilder);
+      edges = await connection.edges;
+      expect(edges.map(edge => edge.node.stats.views)).toEqual([46, 45, 44]);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+
+      connection = new EntityConnection({ last: 2 }, [{ sort: 'post.createdAt', order: 'ASC' }], queryBuilder);
+      expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['post49', 'post50']);
+
+      const invalidSortOptions: any[] = [
+        [{ sort: 'unknown', order: 'ASC' }],
+        [{ sort: 'id; DROP TABLE "EntityConnection-test"', order: 'ASC' }],
+        [{ sort: 'id', order: 'ASC; DROP TABLE "EntityConnection-test"' }],
+      ];
+      for (const invalid of invalidSortOptions) {
+        expect(() => new EntityConnection({ first: 3 }, invalid, queryBuilder)).toThrowError(InvalidArgumentsError);
+      }
+      expect(() => new EntityConnection({ first: 3 }, [{ sort: 'unknown', order: 'ASC' }], queryBuilder))
+        .toThrowError('Cannot sort by unknown field "unknown"');
+    }),
+  ));
+
+  it('paginates over nullable sort columns in both directions', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder();
+      for (const nulls of ['first', 'last', undefined] as ('first' | 'last' | undefined)[]) {
+        for (const order of ['ASC', 'DESC'] as ('ASC' | 'DESC')[]) {
+          const sortOptions: EntityConnectionSortOption[] = [{ sort: 'editor', order, nulls }];
+
+          const forward: Post[] = [];
+          let after: string | undefined;
+          for (let page = 0; page < 8; page++) {
+            const connection = new EntityConnection({ first: 7, after }, sortOptions, queryBuilder);
+            const edges = await connection.edges;
+            forward.push(...edges.map(edge => edge.node));
+            after = edges[edges.length - 1].cursor;
+            expect(await connection.pageInfo.hasNextPage).toBe(page < 7);
+          }
+
+          const backward: Post[] = [];
+          let before: string | undefined;
+          for (let page = 0; page < 8; page++) {
+            const connection = new EntityConnection({ last: 7, before }, sortOptions, queryBuilder);
+            const edges = await connection.edges;
+            backward.unshift(...edges.map(edge => edge.node));
+            before = edges[0].cursor;
+            expect(await connection.pageInfo.hasPreviousPage).toBe(page < 7);
+          }
+
+          expect(new Set(forward.map(post => post.id)).size).toBe(50);
+          expect(backward.map(post => post.id)).toEqual(forward.map(post => post.id));
+
+          const editors = forward.map(post => post.editor);
+          const nullEditors = editors.filter(editor => editor === null);
+          expect(nullEditors).toHaveLength(16);
+          if (nulls === 'first') {
+            expect(editors.slice(0, 16)).toEqual(nullEditors);
+          } else {
+            expect(editors.slice(-16)).toEqual(nullEditors);
+          }
+          const nonNullEditors = editors.filter(editor => editor !== null) as string[];
+          const sorted = [...nonNullEditors].sort();
+          expect(nonNullEditors).toEqual(order === 'ASC' ? sorted : sorted.reverse());
+        }
+      }
+
+      expect(() => new EntityConnection({ first: 3 }, [{ sort: 'editor', order: 'ASC', nulls: 'middle' as any }], queryBuilder))
+        .toThrowError(InvalidArgumentsError);
+    }),
+  ));
+
+  it('paginates by joined columns and expressions', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      async function walk(
+        sortOptions: EntityConnectionSortOption[],
+        createQueryBuilder: () => SelectQueryBuilder<Post>,
+      ) {
+        const forward: Post[] = [];
+        let after: string | undefined;
+        for (let page = 0; page < 7; page++) {
+          const connection = new EntityConnection({ first: 8, after }, sortOptions, createQueryBuilder());
+          const edges = await connection.edges;
+          forward.push(...edges.map(edge => edge.node));
+          after = edges[edges.length - 1].cursor;
+          expect(await connection.pageInfo.hasNextPage).toBe(page < 6);
+        }
+        const backward: Post[] = [];
+        let before: string | undefined;
+        for (let page = 0; page < 7; page++) {
+          const connection = new EntityConnection({ last: 8, before }, sortOptions, createQueryBuilder());
+          const edges = await connection.edges;
+          backward.unshift(...edges.map(edge => edge.node));
+          before = edges[0].cursor;
+        }
+        expect(new Set(forward.map(post => post.id)).size).toBe(50);
+        expect(backward.map(post => post.id)).toEqual(forward.map(post => post.id));
+        return forward;
+      }
+
+      const repository = dbConn.getRepository(Post);
+      let posts = await walk(
+        [{ sort: 'author.name', order: 'DESC' }],
+        () => repository.createQueryBuilder('post').leftJoinAndSelect('post.author', 'author'),
+      );
+      let names = posts.map(post => post.author.name);
+      expect(names).toEqual([...names].sort().reverse());
+
+      posts = await walk(
+        [{ sort: 'author.name', order: 'ASC', getValue: (post: Post) => post.author.name }],
+        () => repository.createQueryBuilder('post').innerJoinAndSelect('post.author', 'writer'),
+      );
+      names = posts.map(post => post.author.name);
+      expect(names).toEqual([...names].sort());
+
+      posts = await walk(
+        [{ sort: 'slugLength', expression: 'LENGTH(post.slug)', order: 'DESC' }, { sort: 'slug', order: 'ASC' }],
+        () => repository.createQueryBuilder('post'),
+      );
+      expect(posts.slice(0, 3).map(post => post.slug)).toEqual(['post10', 'post11', 'post12']);
+      expect(posts.slice(-3).map(post => post.slug)).toEqual(['post7', 'post8', 'post9']);
+
+      const connection = new EntityConnection(
+        { first: 1 },
+        [{ sort: 'slugLength', expression: 'LENGTH(post.slug)', order: 'ASC' }],
+        repository.createQueryBuilder('post'),
+      );
+      expect(() => connection.resolveCursor(new Post()))
+        .toThrowError('Cannot read the value of "slugLength" from a node which was not loaded by the connection');
+      expect(() => new EntityConnection({ first: 1 }, [{ sort: 'author.unknown', order: 'ASC' }], repository.createQueryBuilder('post')))
+        .toThrowError('Cannot sort by unknown field "author.unknown"');
+    }),
+  ));
+
+  it('writes cursor predicates as row value comparisons', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder();
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'category', order: 'DESC' }, { sort: 'createdAt', order: 'DESC' }];
+
+      const pages: { [keysetPredicate: string]: string[][] } = {};
+      for (const keysetPredicate of ['auto', 'rowValue', 'expanded'] as ('auto' | 'rowValue' | 'expanded')[]) {
+        const slugs: string[][] = pages[keysetPredicate] = [];
+        let after: string | undefined;
+        for (let page = 0; page < 7; page++) {
+          const connection = new EntityConnection({ first: 8, after }, sortOptions, queryBuilder, { keysetPredicate });
+          const edges = await connection.edges;
+          slugs.push(edges.map(edge => edge.node.slug));
+          after = edges[edges.length - 1].cursor;
+          expect(await connection.pageInfo.hasNextPage).toBe(page < 6);
+          expect(await connection.pageInfo.hasPreviousPage).toBe(page > 0);
+
+          if (page > 0 && keysetPredicate !== 'auto') {
+            const query = connection.createAppliedQueryBuilder().getQuery();
+            expect(/\) < \(/.test(query)).toBe(keysetPredicate === 'rowValue');
+          }
+        }
+      }
+      expect(pages.rowValue).toEqual(pages.expanded);
+      expect(pages.auto).toEqual(pages.expanded);
+
+      const mixedSortOptions: EntityConnectionSortOption[] = [{ sort: 'category', order: 'ASC' }, { sort: 'createdAt', order: 'DESC' }];
+      const [edge] = await new EntityConnection({ first: 1 }, mixedSortOptions, queryBuilder).edges;
+      const connection = new EntityConnection({ first: 8, after: edge.cursor }, mixedSortOptions, queryBuilder, { keysetPredicate: 'rowValue' });
+      expect((await connection.edges)[0].node.slug).toBe('post48');
+      expect(/\) [<>] \(/.test(connection.createAppliedQueryBuilder().getQuery())).toBe(false);
+    }),
+  ));
+
+  it('starts the pagination around a node', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const repository = dbConn.getRepository(Post);
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'createdAt', order: 'ASC' }];
+      const createConnection = (args: EntityConnectionArguments) => new EntityConnection(args, sortOptions, repository.createQueryBuilder());
+
+      const post20 = await repository.findOne({ slug: 'post20' });
+      const around = await createConnection({}).cursorForId(post20!.id);
+      const edges = await createConnection({ first: 20 }).edges;
+      expect(around).toBe(edges[19].cursor);
+
+      let connection = createConnection({ around, first: 3, last: 2 });
+      expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['post18', 'post19', 'post20', 'post21', 'post22', 'post23']);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+      connection = createConnection({ around: edges[1].cursor, first: 1, last: 3 });
+      expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['post1', 'post2', 'post3']);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(false);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+      connection = createConnection({ around: edges[1].cursor });
+      expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['post2']);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+      const pageSizeOptions = { defaultPageSize: 5, maxPageSize: 5 };
+      const around30 = (await createConnection({ first: 30 }).edges)[29].cursor;
+      connection = new EntityConnection({ around: around30, first: 2 }, sortOptions, repository.createQueryBuilder(), pageSizeOptions);
+      expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['post30', 'post31', 'post32']);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+      connection = new EntityConnection({ around: around30 }, sortOptions, repository.createQueryBuilder(), pageSizeOptions);
+      expect(await connection.edges).toHaveLength(6);
+      connection = new EntityConnection({ around: around30, first: 20, last: 20 }, sortOptions, repository.createQueryBuilder(), pageSizeOptions);
+      expect(await connection.edges).toHaveLength(11);
+
+      const filtered = new EntityConnection({}, sortOptions, repository.createQueryBuilder().where('category = :category', { category: 'Foo' }));
+      expect(await filtered.cursorForId(post20!.id)).toBe(null);
+      expect(await filtered.cursorForId(-1)).toBe(null);
+      expect(() => createConnection({ around, after: edges[0].cursor })).toThrowError(InvalidArgumentsError);
+    }),
+  ));
+
+  it('iterates every node in batches', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const queryBuilder = dbConn.getRepository(Post).createQueryBuilder().where('category = :category', { category: 'Foo' });
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'editor', order: 'ASC' }, { sort: 'createdAt', order: 'DESC' }];
+      const expected = (await new EntityConnection({}, sortOptions, queryBuilder).edges).map(edge => edge.node.slug);
+      expect(expected).toHaveLength(25);
+
+      const connection = new EntityConnection({ first: 3 }, sortOptions, queryBuilder);
+      const slugs: string[] = [];
+      for await (const post of connection) {
+        slugs.push(post.slug);
+      }
+      expect(slugs).toEqual(expected);
+
+      // stop after 10 nodes and resume from the cursor of the last one
+      let checkpoint: string | undefined;
+      slugs.length = 0;
+      for await (const post of connection.iterate({ batchSize: 4 })) {
+        slugs.push(post.slug);
+        checkpoint = connection.resolveCursor(post);
+        if (slugs.length === 10) {
+          break;
+        }
+      }
+      for await (const post of connection.iterate({ batchSize: 4, after: checkpoint })) {
+        slugs.push(post.slug);
+      }
+      expect(slugs).toEqual(expected);
+
+      const edges = await new EntityConnection({ first: 20 }, sortOptions, queryBuilder).edges;
+      const bounded = new EntityConnection({ after: checkpoint, before: edges[19].cursor }, sortOptions, queryBuilder);
+      slugs.length = 0;
+      for await (const post of bounded.iterate({ batchSize: 5 })) {
+        slugs.push(post.slug);
+      }
+      expect(slugs).toEqual(expected.slice(10, 19));
+
+      if (dbConn.options.type !== 'sqlite') {
+        slugs.length = 0;
+        for await (const post of connection.iterate({ batchSize: 6, stream: true })) {
+          slugs.push(post.slug);
+        }
+        expect(slugs).toEqual(expected);
+
+        // breaking out of more streams than the pool has connections must release each of them
+        const queryRunnerSpy = jest.spyOn(dbConn, 'createQueryRunner');
+        try {
+          for (let i = 0; i < 12; i++) {
+            for await (const post of connection.iterate({ batchSize: 6, stream: true })) {
+              expect(post.slug).toBe(expected[0]);
+              break;
+            }
+          }
+          const queryRunners = queryRunnerSpy.mock.results.map(result => result.value);
+          expect(queryRunners).toHaveLength(12);
+          expect(queryRunners.every(queryRunner => queryRunner.isReleased)).toBe(true);
+          expect(await connection.totalCount).toEqual({ count: 25, exact: true });
+        } finally {
+          queryRunnerSpy.mockRestore();
+        }
+
+        // so must failing to hydrate a streamed row
+        const failingSpy = jest.spyOn(dbConn, 'createQueryRunner');
+        const transformSpy = jest.spyOn(RawSqlResultsToEntityTransformer.prototype, 'transform')
+          .mockImplementationOnce(() => { throw new Error('transform failed'); });
+        try {
+          await expect((async () => {
+            for await (const post of connection.iterate({ batchSize: 6, stream: true })) {
+              slugs.push(post.slug);
+            }
+          })()).rejects.toThrowError('transform failed');
+          expect(failingSpy.mock.results.map(result => result.value.isReleased)).toEqual([true]);
+        } finally {
+          failingSpy.mockRestore();
+          transformSpy.mockRestore();
+        }
+      }
+
+      await expect(connection.iterate({ batchSize: 0 }).next()).rejects.toThrowError(InvalidArgumentsError);
+    }),
+  ));
+
+  it('jumps to pages by number and keeps paginating by keyset', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const sortOptions: EntityConnectionSortOption[] = [{ sort: 'createdAt', order: 'ASC' }];
+      const createConnection = (args: EntityConnectionArguments, options: EntityConnectionOptions = {}) => (
+        new EntityConnection(args, sortOptions, dbConn.getRepository(Post).createQueryBuilder(), options)
+      );
+
+      let connection = createConnection({ first: 5, page: 3 });
+      let edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post11', 'post12', 'post13', 'post14', 'post15']);
+      expect(await connection.pageInfo.currentPage).toBe(3);
+      expect(await connection.pageInfo.pageCount).toBe(10);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+      // the next page is loaded by keyset, and numbered by the nodes before it
+      connection = createConnection({ first: 5, page: 3, after: edges[4].cursor });
+      expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['post16', 'post17', 'post18', 'post19', 'post20']);
+      expect(await connection.pageInfo.currentPage).toBe(4);
+
+      connection = createConnection({ offset: 7 }, { defaultPageSize: 5 });
+      edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post8', 'post9', 'post10', 'post11', 'post12']);
+      expect(await connection.pageInfo.currentPage).toBe(2);
+
+      // a capped count is raised to the current page, and to the page after it while there is one
+      connection = createConnection({ first: 5, page: 10 }, { totalCount: { mode: 'capped', cap: 20 } });
+      expect(await connection.edges).toHaveLength(5);
+      expect(await connection.pageInfo.hasNextPage).toBe(false);
+      expect(await connection.pageInfo.currentPage).toBe(10);
+      expect(await connection.pageInfo.pageCount).toBe(10);
+      connection = createConnection({ first: 5, page: 6 }, { totalCount: { mode: 'capped', cap: 20 } });
+      expect(await connection.pageInfo.currentPage).toBe(6);
+      expect(await connection.pageInfo.pageCount).toBe(7);
+
+      // an exact count is raised past the nodes too
+      connection = createConnection({ first: 10, page: 6 });
+      expect(await connection.edges).toHaveLength(0);
+      expect(await connection.pageInfo.currentPage).toBe(6);
+      expect(await connection.pageInfo.pageCount).toBe(6);
+
+      // the nodes before a page reached with a cursor are counted once, up to the cap
+      connection = createConnection({ first: 5, after: edges[4].cursor }, { totalCount: { mode: 'capped', cap: 4 } });
+      await connection.edges;
+      const queryRunnerSpy = jest.spyOn(dbConn, 'createQueryRunner');
+      try {
+        expect(await connection.pageInfo.currentPage).toBe(1);
+        expect(await connection.pageInfo.currentPage).toBe(1);
+        expect(queryRunnerSpy).toHaveBeenCalledTimes(1);
+      } finally {
+        queryRunnerSpy.mockRestore();
+      }
+
+      // pages of last nodes are numbered from the end
+      const filtered = (args: EntityConnectionArguments) => new EntityConnection(
+        args,
+        sortOptions,
+        dbConn.getRepository(Post).createQueryBuilder().where('slug NOT IN (:...slugs)', { slugs: ['post49', 'post50'] }),
+      );
+      connection = filtered({ last: 5 });
+      edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post44', 'post45', 'post46', 'post47', 'post48']);
+      expect(await connection.pageInfo.hasNextPage).toBe(false);
+      expect(await connection.pageInfo.currentPage).toBe(10);
+      expect(await connection.pageInfo.pageCount).toBe(10);
+      connection = filtered({ last: 5, before: edges[0].cursor });
+      expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['post39', 'post40', 'post41', 'post42', 'post43']);
+      expect(await connection.pageInfo.currentPage).toBe(9);
+
+      connection = createConnection({ first: 5 });
+      expect(await connection.pageInfo.currentPage).toBe(1);
+      expect(await connection.pageInfo.hasPreviousPage).toBe(false);
+
+      expect(() => createConnection({ first: 5, offset: -1 })).toThrowError(InvalidArgumentsError);
+      expect(() => createConnection({ first: 5, page: 0 })).toThrowError(InvalidArgumentsError);
+      expect(() => createConnection({ first: 5, page: 2, offset: 5 })).toThrowError(InvalidArgumentsError);
+      expect(() => createConnection({ last: 5, page: 2 })).toThrowError(InvalidArgumentsError);
+      expect(() => createConnection({ page: 2 })).toThrowError('Argument "page" requires "first" or a default page size');
+    }),
+  ));
+
+  it('conforms to the connection specification with filters, multiple columns and mixed directions', () => Promise.all(
+    connections.map(async dbConn => {
+      await loadPosts(dbConn);
+
+      const repository = dbConn.getRepository(Post);
+      const odd = Array.from({ length: 25 }, (_, i) => `post${49 - i * 2}`);
+      const even = Array.from({ length: 25 }, (_, i) => `post${50 - i * 2}`);
+      const scenarios: [SelectQueryBuilder<Post>, EntityConnectionSortOption[], string[]][] = [
+        [
+          repository.createQueryBuilder().where('category = :category', { category: 'Foo' }),
+          [{ sort: 'createdAt', order: 'DESC' }],
+          odd,
+        ],
+        [
+          repository.createQueryBuilder(),
+          [{ sort: 'category', order: 'DESC' }, { sort: 'createdAt', order: 'DESC' }],
+          [...odd, ...even],
+        ],
+        [
+          repository.createQueryBuilder(),
+          [{ sort: 'category', order: 'ASC' }, { sort: 'createdAt', order: 'DESC' }],
+          [...even, ...odd],
+        ],
+      ];
+      for (const [queryBuilder, sortOptions, expected] of scenarios) {
+        await checkConnectionConformance({
+          createConnection: args => new EntityConnection(args, sortOptions, queryBuilder),
+          expected,
+          identify: (post: Post) => post.slug,
+          seed: 7,
+        });
+      }
+
+      const [queryBuilder, sortOptions, expected] = scenarios[1];
+      await expect(checkConnectionConformance({
+        createConnection: args => new EntityConnection(args, sortOptions, queryBuilder),
+        expected: [...expected].reverse(),
+        identify: (post: Post) => post.slug,
+      })).rejects.toThrowError(ConformanceError);
+    }),
+  ));
 });
@@ -0,0 +1,36 @@
+import { CursorMismatchError, FingerprintedCursorCodec, JSONCursorCodec, createCursorFingerprint } from '../src';
+
+
+describe('FingerprintedCursorCodec', () => {
+
+  const codec = new JSONCursorCodec();
+
+  it('prepends the fingerprint to the key', () => {
+    const fingerprint = createCursorFingerprint('EntityConnection', [['title', 'ASC'], ['id', 'ASC']]);
+    const fingerprinted = new FingerprintedCursorCodec(codec, fingerprint);
+    const cursor = fingerprinted.encode(['Post A', 1]);
+
+    expect(codec.decode(cursor)).toEqual([fingerprint.hash, 'Post A', 1]);
+    expect(fingerprinted.decode(cursor)).toEqual(['Post A', 1]);
+  });
+
+  it('rejects cursors issued with another sort specification, scope or connection type', () => {
+    const fingerprinted = new FingerprintedCursorCodec(
+      codec,
+      createCursorFingerprint('EntityConnection', [['title', 'ASC'], ['id', 'ASC']], 'posts'),
+    );
+    const others = [
+      createCursorFingerprint('EntityConnection', [['id', 'ASC']], 'posts'),
+      createCursorFingerprint('EntityConnection', [['title', 'DESC'], ['id', 'ASC']], 'posts'),
+      createCursorFingerprint('EntityConnection', [['title', 'ASC'], ['id', 'ASC']]),
+      createCursorFingerprint('MongoEntityConnection', [['title', 'ASC'], ['id', 'ASC']], 'posts'),
+    ];
+    for (const other of others) {
+      const cursor = new FingerprintedCursorCodec(codec, other).encode(['Post A', 1]);
+      expect(() => fingerprinted.decode(cursor)).toThrowError(CursorMismatchError);
+    }
+    expect(() => fingerprinted.decode(codec.encode(['Post A', 1]))).toThrowError(
+      'Cursor was not issued for EntityConnection sorted by title ASC, id ASC in scope "posts"',
+    );
+  });
+});
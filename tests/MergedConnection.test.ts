@@ -0,0 +1,134 @@
+import 'reflect-metadata';
+import { Connection, Column, Entity, PrimaryColumn, Generated } from 'typeorm';
+
+import { createTestingConnections, closeTestingConnections, reloadTestingDatabases } from './testenv';
+import {
+  ArrayConnection,
+  EntityConnection,
+  MergedConnection,
+  MergedConnectionOptions,
+  checkConnectionConformance,
+} from '../src';
+
+
+@Entity('MergedConnection-test-post')
+class Post {
+
+  @PrimaryColumn('integer')
+  @Generated()
+  id: number;
+
+  @Column()
+  slug: string;
+
+  @Column()
+  createdAt: Date;
+}
+
+@Entity('MergedConnection-test-comment')
+class Comment {
+
+  @PrimaryColumn('integer')
+  @Generated()
+  id: number;
+
+  @Column()
+  slug: string;
+
+  @Column()
+  createdAt: Date;
+}
+
+interface Like {
+  slug: string;
+  createdAt: Date;
+}
+
+function day(i: number) {
+  return new Date(2019, 0, i);
+}
+
+describe('merged connection', () => {
+
+  let connections: Connection[];
+
+  beforeAll(async () => {
+    connections = await createTestingConnections({
+      enabledDrivers: [
+        'mysql',
+        'mariadb',
+        'sqlite',
+        'postgres'
+      ],
+      entities: [Post, Comment],
+    });
+  });
+  beforeEach(() => reloadTestingDatabases(connections));
+  afterAll(() => closeTestingConnections(connections));
+
+  it('interleaves the pages of several sources', () => Promise.all(
+    connections.map(async dbConn => {
+      const feed: [Date, number, string][] = [];
+      for (let i = 1; i <= 12; i++) {
+        await dbConn.getRepository(Post).save({ slug: `post${i}`, createdAt: day(i * 2) });
+        feed.push([day(i * 2), 0, `post${i}`]);
+      }
+      for (let i = 1; i <= 8; i++) {
+        await dbConn.getRepository(Comment).save({ slug: `comment${i}`, createdAt: day(i * 3) });
+        feed.push([day(i * 3), 1, `comment${i}`]);
+      }
+      const likes: Like[] = [];
+      for (let i = 1; i <= 4; i++) {
+        likes.push({ slug: `like${i}`, createdAt: day(i * 5) });
+        feed.push([day(i * 5), 2, `like${i}`]);
+      }
+      // nodes of the same day are merged in the order of the sources
+      const expected = feed
+        .sort(([aDate, aSource], [bDate, bSource]) => bDate.getTime() - aDate.getTime() || aSource - bSource)
+        .map(([, , slug]) => slug);
+
+      const options: MergedConnectionOptions<Post | Comment | Like> = {
+        sources: [
+          args => new EntityConnection(args, [{ sort: 'createdAt', order: 'DESC' }], dbConn.getRepository(Post).createQueryBuilder()),
+          args => new EntityConnection(args, [{ sort: 'createdAt', order: 'DESC' }], dbConn.getRepository(Comment).createQueryBuilder()),
+          args => new ArrayConnection(args, [{ sort: 'createdAt', order: 'DESC' }], likes, { tieBreaker: ['slug'] }),
+        ],
+        orders: [{ order: 'DESC' }],
+        getKey: node => [node.createdAt],
+      };
+
+      const connection = new MergedConnection({ first: 5 }, options);
+      const edges = await connection.edges;
+      expect(edges.map(edge => edge.node.slug)).toEqual(['post12', 'comment8', 'post11', 'comment7', 'post10']);
+      expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+      await checkConnectionConformance({
+        createConnection: args => new MergedConnection(args, options),
+        expected,
+        identify: (node: Post | Comment | Like) => node.slug,
+        seed: 3,
+      });
+    }),
+  ));
+
+  it('continues after a node following every node of an earlier source', async () => {
+    const posts: Like[] = [{ slug: 'p1', createdAt: day(1) }, { slug: 'p2', createdAt: day(2) }];
+    const comments: Like[] = [{ slug: 'c1', createdAt: day(3) }, { slug: 'c2', createdAt: day(4) }];
+    const options: MergedConnectionOptions<Like> = {
+      sources: [
+        args => new ArrayConnection(args, [{ sort: 'createdAt', order: 'ASC' }], posts, { tieBreaker: ['slug'] }),
+        args => new ArrayConnection(args, [{ sort: 'createdAt', order: 'ASC' }], comments, { tieBreaker: ['slug'] }),
+      ],
+      orders: [{ order: 'ASC' }],
+      getKey: node => [node.createdAt],
+    };
+
+    const edges = await new MergedConnection({ first: 3 }, options).edges;
+    expect(edges.map(edge => edge.node.slug)).toEqual(['p1', 'p2', 'c1']);
+
+    const connection = new MergedConnection({ first: 3, after: edges[2].cursor }, options);
+    expect((await connection.edges).map(edge => edge.node.slug)).toEqual(['c2']);
+    expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+    expect(await connection.pageInfo.hasNextPage).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import 'reflect-metadata';
+import { Entity, ObjectIdColumn, ObjectID, Column, Connection } from 'typeorm';
+
+import { createTestingConnections, closeTestingConnections, reloadTestingDatabases } from './testenv';
+import { MongoAggregationConnection, MongoAggregationConnectionOptions } from '../src';
+
+
+@Entity('MongoAggregationConnection-test')
+class Post {
+  @ObjectIdColumn()
+  id: ObjectID;
+
+  @Column()
+  slug: string;
+
+  @Column()
+  category: string;
+
+  @Column()
+  tags: string[];
+}
+
+function loadPosts(connection: Connection) {
+  const posts: Post[] = [];
+  for (let i = 1; i <= 50; i++) {
+    const post = new Post();
+    post.category = i % 2 ? 'Foo' : 'Bar';
+    post.slug = `post${i}`;
+    post.tags = i % 5 ? ['a'] : ['a', 'b'];
+    posts.push(post);
+  }
+  return connection.getMongoRepository(Post).insertMany(posts);
+}
+
+describe('aggregation connection', () => {
+
+  let mongoConnection: Connection;
+
+  beforeAll(async () => {
+    mongoConnection = (await createTestingConnections({
+      enabledDrivers: ['mongodb'],
+      entities: [Post],
+    }))[0];
+  });
+  beforeEach(async () => reloadTestingDatabases([mongoConnection]));
+  afterAll(async () => closeTestingConnections([mongoConnection]));
+
+  it('paginates documents of the pipeline by computed fields', async () => {
+    await loadPosts(mongoConnection);
+
+    const options: MongoAggregationConnectionOptions = {
+      pipeline: [
+        { $match: { category: 'Foo' } },
+        { $addFields: { summary: { length: { $strLenCP: '$slug' } } } },
+      ],
+      sortOptions: { 'summary.length': 1, 'slug': -1 },
+      repository: mongoConnection.getMongoRepository(Post),
+      totalCount: { mode: 'capped', cap: 20 },
+    };
+
+    let connection = new MongoAggregationConnection({ first: 3 }, options);
+    let edges = await connection.edges;
+    expect(edges.map(edge => edge.node.slug)).toEqual(['post9', 'post7', 'post5']);
+    expect(await connection.pageInfo.hasNextPage).toBe(true);
+    expect(await connection.pageInfo.hasPreviousPage).toBe(false);
+    expect(await connection.totalCount).toEqual({ count: 20, exact: false });
+
+    connection = new MongoAggregationConnection({ first: 3, after: edges[2].cursor }, options);
+    edges = await connection.edges;
+    expect(edges.map(edge => edge.node.slug)).toEqual(['post3', 'post1', 'post49']);
+    expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+
+    connection = new MongoAggregationConnection({ last: 2, before: edges[0].cursor }, options);
+    edges = await connection.edges;
+    expect(edges.map(edge => edge.node.slug)).toEqual(['post7', 'post5']);
+    expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+    expect(await connection.pageInfo.hasNextPage).toBe(true);
+
+    connection = new MongoAggregationConnection({ first: 3 }, { ...options, totalCount: undefined });
+    expect(await connection.totalCount).toEqual({ count: 25, exact: true });
+  });
+
+  it('paginates unwound documents by a unique set of fields', async () => {
+    await loadPosts(mongoConnection);
+
+    const options: MongoAggregationConnectionOptions = {
+      pipeline: [{ $unwind: '$tags' }],
+      sortOptions: { tags: -1, slug: 1 },
+      repository: mongoConnection.getMongoRepository(Post),
+      tieBreaker: false,
+    };
+
+    const pairs: string[] = [];
+    let after: string | undefined;
+    for (let page = 0; page < 6; page++) {
+      const connection = new MongoAggregationConnection({ first: 10, after }, options);
+      const edges = await connection.edges;
+      pairs.push(...edges.map(edge => `${edge.node.tags}:${edge.node.slug}`));
+      after = edges[edges.length - 1].cursor;
+      expect(await connection.pageInfo.hasNextPage).toBe(page < 5);
+    }
+    expect(new Set(pairs).size).toBe(60);
+    expect(pairs.slice(0, 2)).toEqual(['b:post10', 'b:post15']);
+  });
+});
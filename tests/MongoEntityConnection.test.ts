@@ -3,8 +3,21 @@ import { ConnectionArguments } from '@girin/connection';
 import { Entity, ObjectIdColumn, ObjectID, Column, Connection } from 'typeorm';
 
 import { createTestingConnections, closeTestingConnections, reloadTestingDatabases } from './testenv';
-import { MongoEntityConnection } from '../src/MongoEntityConnection';
-
+import {
+  InvalidArgumentsError,
+  InvalidCursorError,
+  JSONCursorCodec,
+  MongoEntityConnection,
+  MongoEntityConnectionSortOption,
+  checkConnectionConformance,
+  createBatchedMongoEntityConnections,
+} from '../src';
+
+
+class PostStats {
+  @Column()
+  views: number;
+}
 
 @Entity('MongoEntityConnection-test')
 class Post {
@@ -19,6 +32,12 @@ class Post {
 
   @Column()
   createdAt: Date;
+
+  @Column()
+  editor: string | null;
+
+  @Column(() => PostStats)
+  stats: PostStats;
 }
 
 function loadPosts(connection: Connection) {
@@ -28,6 +47,9 @@ function loadPosts(connection: Connection) {
     post.category = i % 2 ? 'Foo' : 'Bar';
     post.slug = `post${i}`;
     post.createdAt = new Date(1990 + i, 5, 5);
+    post.editor = i % 3 ? `editor${i % 4}` : null;
+    post.stats = new PostStats();
+    post.stats.views = (i * 7) % 50;
     posts.push(post);
   }
   return connection.getMongoRepository(Post).insertMany(posts);
@@ -246,4 +268,263 @@ describe('index connection', () => {
     edges = await connection.edges;
     expect(edges).toHaveLength(0);
   });
+
+  it('throws typed errors for invalid arguments', () => {
+    expect(() => queryPostsOrderedByCreatedAt(mongoConnection, { first: 0 })).toThrowError(InvalidArgumentsError);
+    expect(() => queryPostsOrderedByCreatedAt(mongoConnection, { last: -1 })).toThrowError(InvalidArgumentsError);
+    expect(() => queryPostsOrderedByCreatedAt(mongoConnection, { after: 'not a cursor' })).toThrowError(InvalidCursorError);
+  });
+
+  it('resolves total count of the selector', async () => {
+    await loadPosts(mongoConnection);
+
+    const first = await queryPostsOrderedByCategoryAndCreatedAt(mongoConnection, { first: 2 }, { category: 'Foo' }).edges;
+
+    let connection = queryPostsOrderedByCategoryAndCreatedAt(mongoConnection, { first: 2, after: first[1].cursor }, { category: 'Foo' });
+    expect(await connection.totalCount).toEqual({ count: 25, exact: true });
+
+    connection = new MongoEntityConnection({ first: 2 }, {
+      selector: { category: 'Foo' },
+      sortOptions: { createdAt: 1 },
+      repository: mongoConnection.getMongoRepository(Post),
+      totalCount: { mode: 'capped', cap: 10 },
+    });
+    expect(await connection.totalCount).toEqual({ count: 10, exact: false });
+
+    connection = new MongoEntityConnection({ first: 2 }, {
+      sortOptions: { createdAt: 1 },
+      repository: mongoConnection.getMongoRepository(Post),
+      totalCount: { mode: 'estimated' },
+    });
+    expect(await connection.totalCount).toEqual({ count: 50, exact: false });
+  });
+
+  it('appends _id to non-unique sort options', async () => {
+    await loadPosts(mongoConnection);
+
+    const slugs: string[] = [];
+    let after: string | undefined;
+    for (let page = 0; page < 7; page++) {
+      const connection = new MongoEntityConnection({ first: 8, after }, {
+        sortOptions: { category: -1 },
+        repository: mongoConnection.getMongoRepository(Post),
+      });
+      const edges = await connection.edges;
+      slugs.push(...edges.map(edge => edge.node.slug));
+      after = edges[edges.length - 1].cursor;
+      expect(await connection.pageInfo.hasNextPage).toBe(page < 6);
+    }
+    expect(slugs).toHaveLength(50);
+    expect(slugs.slice(0, 3)).toEqual(['post49', 'post47', 'post45']);
+    expect(slugs.slice(-3)).toEqual(['post6', 'post4', 'post2']);
+  });
+
+  it('paginates over null values in both directions', async () => {
+    await loadPosts(mongoConnection);
+
+    for (const order of [1, -1] as (1 | -1)[]) {
+      const options = { sortOptions: { editor: order }, repository: mongoConnection.getMongoRepository(Post) };
+
+      const forward: Post[] = [];
+      let after: string | undefined;
+      for (let page = 0; page < 8; page++) {
+        const connection = new MongoEntityConnection({ first: 7, after }, options);
+        const edges = await connection.edges;
+        forward.push(...edges.map(edge => edge.node));
+        after = edges[edges.length - 1].cursor;
+        expect(await connection.pageInfo.hasNextPage).toBe(page < 7);
+      }
+
+      const backward: Post[] = [];
+      let before: string | undefined;
+      for (let page = 0; page < 8; page++) {
+        const connection = new MongoEntityConnection({ last: 7, before }, options);
+        const edges = await connection.edges;
+        backward.unshift(...edges.map(edge => edge.node));
+        before = edges[0].cursor;
+      }
+
+      expect(new Set(forward.map(post => post.slug)).size).toBe(50);
+      expect(backward.map(post => post.slug)).toEqual(forward.map(post => post.slug));
+
+      const editors = forward.map(post => post.editor);
+      const nulls = order === 1 ? editors.slice(0, 16) : editors.slice(-16);
+      expect(nulls.every(editor => editor === null)).toBe(true);
+    }
+  });
+
+  it('loads the pages of every parent with a single aggregation', async () => {
+    await loadPosts(mongoConnection);
+
+    const repository = mongoConnection.getMongoRepository(Post);
+    const aggregateSpy = jest.spyOn(repository, 'aggregate');
+    try {
+      const batch = createBatchedMongoEntityConnections(['Foo', 'Bar', 'Baz'], { first: 3 }, {
+        sortOptions: { createdAt: -1 },
+        parentField: 'category',
+        repository,
+      });
+      const pages = await Promise.all(batch.map(connection => connection.edges));
+      expect(pages.map(edges => edges.map(edge => edge.node.slug))).toEqual([
+        ['post49', 'post47', 'post45'],
+        ['post50', 'post48', 'post46'],
+        [],
+      ]);
+      expect(await batch[0].pageInfo.hasNextPage).toBe(true);
+      expect(await batch[2].pageInfo.hasNextPage).toBe(false);
+      expect(await batch[1].totalCount).toEqual({ count: 25, exact: true });
+      expect(aggregateSpy).toHaveBeenCalledTimes(1);
+
+      const next = createBatchedMongoEntityConnections(['Foo', 'Bar'], { first: 30, after: pages[0][2].cursor }, {
+        sortOptions: { createdAt: -1 },
+        parentField: 'category',
+        repository,
+      });
+      expect(await next[0].edges).toHaveLength(22);
+      expect(await next[0].pageInfo.hasNextPage).toBe(false);
+
+      // the page info of cursors is probed for every parent with a single aggregation
+      aggregateSpy.mockClear();
+      const countSpy = jest.spyOn(repository, 'count');
+      try {
+        expect(await Promise.all(next.map(connection => connection.pageInfo.hasPreviousPage))).toEqual([true, true]);
+        expect(aggregateSpy).toHaveBeenCalledTimes(1);
+        expect(countSpy).not.toHaveBeenCalled();
+      } finally {
+        countSpy.mockRestore();
+      }
+
+      // a parent key given more than once gets the same page each time
+      const duplicated = createBatchedMongoEntityConnections(['Foo', 'Foo'], { last: 2 }, {
+        sortOptions: { createdAt: -1 },
+        parentField: 'category',
+        repository,
+      });
+      const duplicatedPages = await Promise.all(duplicated.map(connection => connection.edges));
+      expect(duplicatedPages.map(edges => edges.map(edge => edge.node.slug))).toEqual([['post3', 'post1'], ['post3', 'post1']]);
+      expect(await Promise.all(duplicated.map(connection => connection.pageInfo.hasPreviousPage))).toEqual([true, true]);
+    } finally {
+      aggregateSpy.mockRestore();
+    }
+  });
+
+  it('sorts by embedded fields and entity property paths', async () => {
+    await loadPosts(mongoConnection);
+
+    const repository = mongoConnection.getMongoRepository(Post);
+    let connection = new MongoEntityConnection({ first: 3 }, { sortOptions: { 'stats.views': -1 }, repository });
+    let edges = await connection.edges;
+    expect(edges.map(edge => edge.node.stats.views)).toEqual([49, 48, 47]);
+
+    connection = new MongoEntityConnection({ first: 3, after: edges[2].cursor }, { sortOptions: { 'stats.views': -1 }, repository });
+    edges = await connection.edges;
+    expect(edges.map(edge => edge.node.stats.views)).toEqual([46, 45, 44]);
+
+    const cursorCodec = new JSONCursorCodec();
+    const sortOptions = { createdAt: -1 as -1, id: -1 as -1 };
+    connection = new MongoEntityConnection({ first: 3 }, { sortOptions, repository, cursorCodec });
+    edges = await connection.edges;
+    expect(cursorCodec.decode(edges[0].cursor)).toEqual([
+      expect.any(String),
+      new Date(2040, 5, 5).toISOString(),
+      edges[0].node.id.toHexString(),
+    ]);
+
+    connection = new MongoEntityConnection({ first: 3, after: edges[2].cursor }, { sortOptions, repository, cursorCodec });
+    edges = await connection.edges;
+    expect(edges.map(edge => edge.node.slug)).toEqual(['post47', 'post46', 'post45']);
+    expect(await connection.pageInfo.hasPreviousPage).toBe(true);
+  });
+
+  it('sorts by an ordered list of sort options', async () => {
+    await loadPosts(mongoConnection);
+
+    const repository = mongoConnection.getMongoRepository(Post);
+    const sortOptions: MongoEntityConnectionSortOption[] = [
+      { fieldName: 'editor', order: 1, nulls: 'last' },
+      { fieldName: 'slug', order: 1, collation: { locale: 'en', numericOrdering: true } },
+    ];
+
+    const forward: Post[] = [];
+    let after: string | undefined;
+    for (let page = 0; page < 5; page++) {
+      const connection = new MongoEntityConnection({ first: 10, after }, { sortOptions, repository });
+      const edges = await connection.edges;
+      forward.push(...edges.map(edge => edge.node));
+      after = edges[edges.length - 1].cursor;
+      expect(await connection.pageInfo.hasNextPage).toBe(page < 4);
+    }
+    const backward: Post[] = [];
+    let before: string | undefined;
+    for (let page = 0; page < 5; page++) {
+      const connection = new MongoEntityConnection({ last: 10, before }, { sortOptions, repository });
+      const edges = await connection.edges;
+      backward.unshift(...edges.map(edge => edge.node));
+      before = edges[0].cursor;
+    }
+
+    expect(backward.map(post => post.slug)).toEqual(forward.map(post => post.slug));
+    expect(forward.slice(0, 3).map(post => post.slug)).toEqual(['post4', 'post8', 'post16']);
+    expect(forward.slice(-3).map(post => post.slug)).toEqual(['post42', 'post45', 'post48']);
+    expect(forward.slice(-16).every(post => post.editor === null)).toBe(true);
+
+    expect(() => new MongoEntityConnection({ first: 1 }, {
+      sortOptions: [{ fieldName: 'slug', order: 1, collation: { locale: 'en' } }, { fieldName: 'editor', order: 1, collation: { locale: 'fr' } }],
+      repository,
+    })).toThrowError('Sort options of MongoEntityConnection must not specify different collations');
+  });
+
+  it('iterates every document in batches', async () => {
+    await loadPosts(mongoConnection);
+
+    const options = {
+      selector: { category: 'Foo' },
+      sortOptions: { editor: 1, createdAt: -1 } as { [fieldName: string]: 1 | -1 },
+      repository: mongoConnection.getMongoRepository(Post),
+    };
+    const expected = (await new MongoEntityConnection({}, options).edges).map(edge => edge.node.slug);
+    expect(expected).toHaveLength(25);
+
+    const connection = new MongoEntityConnection({ first: 3 }, options);
+    const slugs: string[] = [];
+    for await (const post of connection) {
+      slugs.push(post.slug);
+    }
+    expect(slugs).toEqual(expected);
+
+    // stop after 10 documents and resume from the cursor of the last one
+    let checkpoint: string | undefined;
+    slugs.length = 0;
+    for await (const post of connection.iterate({ batchSize: 4 })) {
+      slugs.push(post.slug);
+      checkpoint = connection.resolveCursor(post);
+      if (slugs.length === 10) {
+        break;
+      }
+    }
+    for await (const post of connection.iterate({ batchSize: 4, after: checkpoint })) {
+      slugs.push(post.slug);
+    }
+    expect(slugs).toEqual(expected);
+  });
+
+  it('conforms to the connection specification with selectors, multiple fields and mixed directions', async () => {
+    await loadPosts(mongoConnection);
+
+    const repository = mongoConnection.getMongoRepository(Post);
+    const odd = Array.from({ length: 25 }, (_, i) => `post${49 - i * 2}`);
+    const even = Array.from({ length: 25 }, (_, i) => `post${50 - i * 2}`);
+    const scenarios: [any, { [fieldName: string]: 1 | -1 }, string[]][] = [
+      [{ category: 'Foo' }, { createdAt: -1 }, odd],
+      [undefined, { category: -1, createdAt: -1 }, [...odd, ...even]],
+      [undefined, { category: 1, createdAt: -1 }, [...even, ...odd]],
+    ];
+    for (const [selector, sortOptions, expected] of scenarios) {
+      await checkConnectionConformance({
+        createConnection: args => new MongoEntityConnection(args, { selector, sortOptions, repository }),
+        expected,
+        identify: (post: Post) => post.slug,
+      });
+    }
+  });
 });
@@ -0,0 +1,33 @@
+import { CursorVerificationError, JSONCursorCodec, SignedCursorCodec } from '../src';
+
+
+describe('SignedCursorCodec', () => {
+
+  const codec = new JSONCursorCodec();
+
+  it('round-trips signed cursors', () => {
+    const signed = new SignedCursorCodec(codec, { secret: 'current' });
+    const cursor = signed.encode(['Post A', 1]);
+
+    expect(cursor.startsWith(codec.encode(['Post A', 1]) + '.')).toBe(true);
+    expect(signed.decode(cursor)).toEqual(['Post A', 1]);
+  });
+
+  it('rejects modified and unsigned cursors', () => {
+    const signed = new SignedCursorCodec(codec, { secret: 'current' });
+    const [, signature] = signed.encode(['Post A', 1]).split('.');
+
+    expect(() => signed.decode(`${codec.encode(['Post A', 2])}.${signature}`)).toThrowError(CursorVerificationError);
+    expect(() => signed.decode(codec.encode(['Post A', 1]))).toThrowError(CursorVerificationError);
+  });
+
+  it('verifies cursors signed with rotated secrets', () => {
+    const previous = new SignedCursorCodec(codec, { secret: 'previous' });
+    const rotated = new SignedCursorCodec(codec, { secret: 'current', verificationSecrets: ['previous'] });
+    const other = new SignedCursorCodec(codec, { secret: 'other' });
+
+    expect(rotated.decode(previous.encode([1]))).toEqual([1]);
+    expect(() => rotated.decode(other.encode([1]))).toThrowError(CursorVerificationError);
+    expect(() => previous.decode(rotated.encode([1]))).toThrowError('Cursor signature is invalid');
+  });
+});
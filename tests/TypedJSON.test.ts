@@ -0,0 +1,34 @@
+import { TypedJSON } from '../src';
+
+
+describe('TypedJSON', () => {
+
+  it('round-trips sort key values with their types', () => {
+    const key = [
+      new Date('2018-03-02T10:20:30.456Z'),
+      '12345678901234567890.123456789',
+      Buffer.from([0, 1, 2, 255]),
+      null,
+      42,
+      'title',
+      true,
+    ];
+    const decoded = TypedJSON.parse(TypedJSON.stringify(key));
+
+    expect(decoded).toEqual(key);
+    expect(decoded[0]).toBeInstanceOf(Date);
+    expect(Buffer.isBuffer(decoded[2])).toBe(true);
+  });
+
+  it('round-trips bigint values', () => {
+    const BigInt = (global as any).BigInt;
+    const decoded = TypedJSON.parse(TypedJSON.stringify([BigInt('9007199254740993')]));
+
+    expect(typeof decoded[0]).toBe('bigint');
+    expect(decoded[0].toString()).toBe('9007199254740993');
+  });
+
+  it('leaves plain objects untouched', () => {
+    expect(TypedJSON.parse(TypedJSON.stringify([{ a: 1, b: 2 }]))).toEqual([{ a: 1, b: 2 }]);
+  });
+});